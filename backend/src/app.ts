@@ -4,6 +4,13 @@ import { ZodError } from "zod";
 import { config } from "./config";
 import gameController from "./controllers/gameController";
 import { AIResponseValidationError } from "./services/aiService";
+import { SnapshotError } from "./services/snapshotService";
+import { MockScriptError } from "./services/providers/mockProvider";
+import { CharacterNotFoundError } from "./services/characterService";
+import { ItemNotFoundError } from "./services/itemService";
+import { ScenarioNotFoundError } from "./services/scenarioService";
+import { BudgetExceededError } from "./services/usageService";
+import { TurnInProgressError } from "./services/gameService";
 import { JsonParseError } from "./utils/jsonParser";
 
 const app = express();
@@ -48,6 +55,41 @@ app.use(
       return;
     }
 
+    if (err instanceof SnapshotError) {
+      res.status(400).json({ error: "Invalid snapshot", message: err.message });
+      return;
+    }
+
+    if (err instanceof MockScriptError) {
+      res.status(400).json({ error: "Invalid mock script", message: err.message });
+      return;
+    }
+
+    if (err instanceof ScenarioNotFoundError) {
+      res.status(400).json({ error: "Unknown scenario", message: err.message });
+      return;
+    }
+
+    if (err instanceof CharacterNotFoundError) {
+      res.status(400).json({ error: "Unknown character", message: err.message });
+      return;
+    }
+
+    if (err instanceof ItemNotFoundError) {
+      res.status(400).json({ error: "Unknown item", message: err.message });
+      return;
+    }
+
+    if (err instanceof TurnInProgressError) {
+      res.status(409).json({ error: "A turn is already in progress", message: err.message });
+      return;
+    }
+
+    if (err instanceof BudgetExceededError) {
+      res.status(402).json({ error: "Session budget exceeded", message: err.message });
+      return;
+    }
+
     if (err instanceof ZodError) {
       res.status(400).json({ error: "Validation error", issues: err.issues });
       return;
@@ -1,4 +1,5 @@
 import dotenv from "dotenv";
+import path from "path";
 
 dotenv.config();
 
@@ -11,26 +12,69 @@ const resolvePort = () => {
   return Number.isFinite(port) ? port : 3001;
 };
 
-const resolveApiKeys = (): string[] => {
-  const multi = process.env.GEMINI_API_KEYS;
+const resolveNonNegative = (value: string | undefined, fallback: number) => {
+  if (!value?.trim()) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const resolveApiKeys = (multiVar: string, singleVar: string): string[] => {
+  const multi = process.env[multiVar];
   if (multi) {
     return multi.split(",").map((k) => k.trim()).filter(Boolean);
   }
-  const single = process.env.GEMINI_API_KEY;
+  const single = process.env[singleVar];
   if (single?.trim()) {
     return [single.trim()];
   }
   return [];
 };
 
+const LLM_PROVIDERS = ["google", "vertex", "openai", "mock"] as const;
+
+const resolveLlmProvider = (): (typeof LLM_PROVIDERS)[number] | null => {
+  const value = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return LLM_PROVIDERS.find((provider) => provider === value) ?? null;
+};
+
+const resolveMemorySummarizer = (): "model" | "extractive" =>
+  process.env.MEMORY_SUMMARIZER?.trim().toLowerCase() === "extractive" ? "extractive" : "model";
+
+// "orchestrator=v1,router=v2" pins prompt template versions by name.
+const resolvePromptVersions = (): Record<string, string> =>
+  Object.fromEntries(
+    (process.env.PROMPT_VERSIONS ?? "")
+      .split(",")
+      .map((entry) => entry.split("=").map((part) => part.trim()))
+      .filter(([name, version]) => name && /^v\d+$/.test(version ?? "")),
+  );
+
+const resolveSessionStore = (): "memory" | "file" => {
+  const value = process.env.SESSION_STORE?.trim().toLowerCase();
+  return value === "file" ? "file" : "memory";
+};
+
 export const config = {
   port: resolvePort(),
   
   geminiApiKey: process.env.GEMINI_API_KEY ?? "",
-  geminiApiKeys: resolveApiKeys(),
+  geminiApiKeys: resolveApiKeys("GEMINI_API_KEYS", "GEMINI_API_KEY"),
   
+  // Explicit provider; when unset it is picked from the configured keys.
+  llmProvider: resolveLlmProvider(),
+  mockFixturesFile:
+    process.env.MOCK_FIXTURES_FILE?.trim() ||
+    path.resolve(__dirname, "../../fixtures/mock-llm.json"),
+
+  openaiBaseUrl: process.env.OPENAI_BASE_URL?.trim() || "http://localhost:8080/v1",
+  openaiModel: process.env.OPENAI_MODEL?.trim() || "local-model",
+  openaiApiKey: process.env.OPENAI_API_KEY?.trim() ?? "",
+
   useVertexAI: process.env.USE_VERTEX_AI === "true",
   vertexAIApiKey: process.env.VERTEX_AI_API_KEY ?? "",
+  vertexAIApiKeys: resolveApiKeys("VERTEX_AI_API_KEYS", "VERTEX_AI_API_KEY"),
   googleCloudProject: process.env.GOOGLE_CLOUD_PROJECT ?? "",
   googleApplicationCredentials: process.env.GOOGLE_APPLICATION_CREDENTIALS ?? "",
   vertexAILocation: process.env.VERTEX_AI_LOCATION ?? "us-central1",
@@ -40,12 +84,54 @@ export const config = {
   
   corsOrigin: process.env.CORS_ORIGIN ?? "*",
 
+  sessionStore: resolveSessionStore(),
+  sessionStoreDir: process.env.SESSION_STORE_DIR?.trim() || ".sessions",
+  sessionIdleTtlMs: resolveNonNegative(process.env.SESSION_IDLE_TTL_SECONDS, 86_400) * 1000,
+  sessionMaxCount: resolveNonNegative(process.env.SESSION_MAX_COUNT, 1000),
+  sessionSweepIntervalMs:
+    resolveNonNegative(process.env.SESSION_SWEEP_INTERVAL_SECONDS, 300) * 1000,
+  rewindMaxSnapshots: resolveNonNegative(process.env.REWIND_MAX_SNAPSHOTS, 30),
+
+  modelRecordingEnabled: process.env.MODEL_RECORDING_ENABLED === "true",
+  modelRecordingDir: process.env.MODEL_RECORDING_DIR?.trim() || ".recordings",
+
+  snapshotSecret: process.env.SNAPSHOT_SECRET?.trim() ?? "",
+
+  scenariosDir: process.env.SCENARIOS_DIR?.trim() || path.resolve(__dirname, "../../scenarios"),
+  defaultScenarioId: process.env.DEFAULT_SCENARIO?.trim() || "am",
+
+  promptsDir: process.env.PROMPTS_DIR?.trim() || path.resolve(__dirname, "../../prompts"),
+  promptVersions: resolvePromptVersions(),
+
   contextCacheEnabled: process.env.CONTEXT_CACHE_ENABLED !== "false",
   contextCacheTtl:
     process.env.CONTEXT_CACHE_TTL?.trim() || "3600s",
   contextCacheDisplayName:
     process.env.CONTEXT_CACHE_DISPLAY_NAME?.trim() || "orchestrator-cache",
 
+  // History entries kept verbatim after older ones are folded into the summary.
+  memoryRecentEntries: Math.max(2, resolveNonNegative(process.env.MEMORY_RECENT_ENTRIES, 8)),
+  memorySummaryTokens: Math.max(50, resolveNonNegative(process.env.MEMORY_SUMMARY_TOKENS, 400)),
+  memorySummarizer: resolveMemorySummarizer(),
+  // Past passages recalled from the turn journal per turn; 0 disables recall.
+  retrievalTopK: resolveNonNegative(process.env.RETRIEVAL_TOP_K, 3),
+  retrievalPassageChars: Math.max(100, resolveNonNegative(process.env.RETRIEVAL_PASSAGE_CHARS, 600)),
+  // Total weight the player can carry (an item weighs 1 unless set); 0 means unlimited.
+  inventoryMaxWeight: resolveNonNegative(process.env.INVENTORY_MAX_WEIGHT, 20),
+  recipesFile: process.env.RECIPES_FILE?.trim() || path.resolve(__dirname, "../../data/recipes.json"),
+
+  // 0 means unlimited.
+  sessionTokenBudget: resolveNonNegative(process.env.SESSION_TOKEN_BUDGET, 0),
+  sessionImageBudget: resolveNonNegative(process.env.SESSION_IMAGE_BUDGET, 0),
+  // USD list prices behind the cost estimates in usage reports.
+  priceInputPerMTok: resolveNonNegative(process.env.PRICE_INPUT_PER_MTOK, 0.1),
+  priceCachedInputPerMTok: resolveNonNegative(process.env.PRICE_CACHED_INPUT_PER_MTOK, 0.025),
+  priceOutputPerMTok: resolveNonNegative(process.env.PRICE_OUTPUT_PER_MTOK, 0.4),
+  pricePerImage: resolveNonNegative(process.env.PRICE_PER_IMAGE, 0.03),
+
+  imageJobTtlMs: resolveNonNegative(process.env.IMAGE_JOB_TTL_SECONDS, 3600) * 1000,
+  imageJobMaxCount: resolveNonNegative(process.env.IMAGE_JOB_MAX_COUNT, 100),
+
   imageCacheEnabled: process.env.IMAGE_CACHE_ENABLED !== "false",
   gcloudProjectId: process.env.GCLOUD_PROJECT_ID ?? "",
   gcloudClientEmail: process.env.GCLOUD_CLIENT_EMAIL ?? "",
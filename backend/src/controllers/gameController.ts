@@ -1,30 +1,128 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import { z } from "zod";
 import {
   createSession,
   getSession,
   serializeState,
-  pushHistoryEntry,
   deleteSession,
+  isSessionExpired,
+  importSession,
+  describeCurrentScene,
+  saveSession,
+  takeTurnSnapshot,
+  recordTurnSnapshot,
+  rewindSession,
+  forkSession,
+  listBranches,
+  appendJournalEntry,
+  readJournal,
+  claimTurn,
 } from "../services/gameService";
-import { generateImage } from "../services/imageService";
-import { actionRequestSchema } from "../models/schemas";
-import type { ChoiceCheckResult, ChoiceOption, ChoicePayload, GameState } from "../models/types";
-import { processPlayerAction } from "../services/orchestratorService";
+import { createSnapshot, restoreSnapshot } from "../services/snapshotService";
+import {
+  findImageJob,
+  getImageJob,
+  serializeImageJob,
+  startImageJob,
+  waitForImageJob,
+} from "../services/imageJobService";
+import {
+  addSessionUsage,
+  assertTokenBudget,
+  createUsageByRole,
+  describeSessionUsage,
+  hasImageBudget,
+  recordImageUsage,
+} from "../services/usageService";
+import type { SessionRecord } from "../services/sessionStore";
+import {
+  actionRequestSchema,
+  forkQuerySchema,
+  journalQuerySchema,
+  rewindRequestSchema,
+  startRequestSchema,
+} from "../models/schemas";
+import { getPromptVersions } from "../services/promptService";
+import { recallPassages } from "../services/retrievalService";
+import { resolveRequestedItems } from "../services/itemService";
+import { listScenarios } from "../services/scenarioService";
+import { resolveTurn } from "../services/turnService";
+import type {
+  GameState,
+  ItemRequest,
+  TurnEventListener,
+  UsageByRole,
+} from "../models/types";
+import {
+  recordRestore,
+  recordSessionStart,
+  recordTurn,
+} from "../services/recordingService";
 
 const router = Router();
 
-router.post("/start", async (_req, res, next) => {
+const sendSessionMissing = (res: Response, sessionId: string) => {
+  if (isSessionExpired(sessionId)) {
+    res.status(410).json({ error: "Session expired" });
+    return;
+  }
+  res.status(404).json({ error: "Session not found" });
+};
+
+/**
+ * Starts the scene image for `prompt` and charges it to `usage`. A prompt that
+ * is already generated or generating is free; past the session's image budget
+ * no new image is started.
+ */
+const startSceneImage = (session: SessionRecord, usage: UsageByRole, prompt: string | null) => {
+  const existing = findImageJob(prompt);
+  if (existing) {
+    return existing;
+  }
+  if (!hasImageBudget(session)) {
+    console.warn("[GameController] Session image budget exhausted, skipping image");
+    return null;
+  }
+  const job = startImageJob(prompt);
+  if (job) {
+    recordImageUsage(usage);
+  }
+  return job;
+};
+
+/** `startSceneImage` outside of a turn: intro, restart, rewind, fork and import. */
+const startSessionImage = async (sessionId: string, prompt: string) => {
+  const session = await getSession(sessionId);
+  if (!session) {
+    return null;
+  }
+  const usage = createUsageByRole();
+  const job = startSceneImage(session, usage, prompt);
+  if (usage.image.images > 0) {
+    addSessionUsage(session, session.state.turn, usage);
+    await saveSession(sessionId, session);
+  }
+  return job;
+};
+
+router.get("/scenarios", (_req, res) => {
+  res.json({ scenarios: listScenarios() });
+});
+
+router.post("/start", async (req, res, next) => {
   try {
-    const { sessionId, state, intro } = createSession();
-    const image = await generateImage(intro.image_prompt);
+    const options = startRequestSchema.parse(req.body ?? {});
+    const { sessionId, state, intro } = await createSession(options);
+    await recordSessionStart(sessionId, state);
+    const imageJob = await startSessionImage(sessionId, intro.image_prompt);
 
     res.json({
       sessionId,
       story_text: intro.story_text,
       choices: intro.choices,
       image_prompt: intro.image_prompt,
-      image_url: image?.imageUrl || null,
+      image_url: imageJob?.imageUrl ?? null,
+      imageJobId: imageJob?.id ?? null,
       state: serializeState(state),
       orchestration: {
         mode: "intro",
@@ -36,69 +134,163 @@ router.post("/start", async (_req, res, next) => {
   }
 });
 
-router.post("/action", async (req, res, next) => {
+type ActiveSession = NonNullable<Awaited<ReturnType<typeof getSession>>>;
+
+/**
+ * Parses an action request, claims the session for the turn and loads it.
+ * Sends the 404/410/409 response itself and returns null when the turn
+ * cannot be played; an item that is not carried throws ItemNotFoundError and
+ * a turn already in flight throws TurnInProgressError. The caller releases
+ * the claim once the turn is saved.
+ */
+const loadActionSession = async (body: unknown, res: Response) => {
+  const { sessionId, action, useItemId, combineItemIds } = actionRequestSchema.parse(body ?? {});
+  const items: ItemRequest = { useItemId, combineItemIds };
+  const release = claimTurn(sessionId);
+  let loaded = false;
+
   try {
-    const { sessionId, action } = actionRequestSchema.parse(req.body);
-    const state = getSession(sessionId);
+    const session = await getSession(sessionId);
 
-    if (!state) {
-      res.status(404).json({ error: "Session not found" });
-      return;
+    if (!session) {
+      sendSessionMissing(res, sessionId);
+      return null;
     }
 
-    if (state.isGameOver) {
+    if (session.state.isGameOver) {
       res.status(409).json({
         error: "Game is already over",
-        state: serializeState(state),
+        state: serializeState(session.state),
       });
-      return;
+      return null;
     }
 
-    console.log(`[GameController] Processing action for session ${sessionId}: "${action}"`);
+    assertTokenBudget(session);
+    resolveRequestedItems(session.state, items);
 
-    state.turn = (state.turn ?? 0) + 1;
+    loaded = true;
+    return { sessionId, action, items, session, release };
+  } finally {
+    if (!loaded) {
+      release();
+    }
+  }
+};
 
-    const choiceCheck = resolveChoiceCheck(state, action);
+const playTurn = async (
+  sessionId: string,
+  session: ActiveSession,
+  action: string,
+  items: ItemRequest,
+  onEvent?: TurnEventListener,
+) => {
+  const { state } = session;
+  console.log(
+    `[GameController] Processing action for session ${sessionId}: "${action}"` +
+      (items.useItemId ? ` using item ${items.useItemId}` : "") +
+      (items.combineItemIds ? ` combining ${items.combineItemIds.join(" + ")}` : ""),
+  );
 
-    const orchestratorResponse = await processPlayerAction(state, action, choiceCheck);
+  const startedAt = Date.now();
+  const snapshot = takeTurnSnapshot(state);
+  const recalled = await recallPassages(sessionId, state, action);
+  const { choiceCheck, orchestratorResponse, usage } = await resolveTurn(
+    sessionId,
+    state,
+    action,
+    { onEvent, recalled, items },
+  );
+  recordTurnSnapshot(session, snapshot);
+  const imageJob = startSceneImage(session, usage, orchestratorResponse.imagePrompt);
+  addSessionUsage(session, state.turn, usage);
+  await saveSession(sessionId, session);
+  await recordTurn(sessionId, action, state, items);
 
-    let imageUrl: string | null = null;
-    if (orchestratorResponse.imagePrompt) {
-      try {
-        const image = await generateImage(orchestratorResponse.imagePrompt);
-        imageUrl = image?.imageUrl || null;
-      } catch (imageError) {
-        console.error("[GameController] Image generation failed:", imageError);
-      }
-    }
+  return { startedAt, choiceCheck, orchestratorResponse, usage, imageJob };
+};
 
-    const statUpdates = extractStatUpdates(orchestratorResponse.toolCalls);
+type PlayedTurn = Awaited<ReturnType<typeof playTurn>>;
+
+const buildTurnPayload = (
+  sessionId: string,
+  session: ActiveSession,
+  { orchestratorResponse, imageJob }: PlayedTurn,
+) => ({
+  sessionId,
+  story_text: orchestratorResponse.storyText,
+  stat_updates: extractStatUpdates(orchestratorResponse.toolCalls),
+  item_use: orchestratorResponse.itemUse,
+  item_combine: orchestratorResponse.itemCombine,
+  effect_ticks: orchestratorResponse.effectTicks,
+  choices: orchestratorResponse.choices,
+  image_prompt: orchestratorResponse.imagePrompt,
+  image_url: imageJob?.imageUrl ?? null,
+  imageJobId: imageJob?.id ?? null,
+  state: serializeState(session.state),
+  orchestration: {
+    mode: "function_calling",
+    toolCalls: orchestratorResponse.toolCalls.map((tc) => ({
+      tool: tc.toolName,
+      args: tc.args,
+      success: tc.result.success,
+      message: tc.result.message,
+    })),
+    isGameOver: orchestratorResponse.isGameOver,
+    gameOverDescription: orchestratorResponse.gameOverDescription,
+  },
+});
 
-    const responsePayload = {
-      sessionId,
-      story_text: orchestratorResponse.storyText,
-      stat_updates: statUpdates,
+const journalTurn = async (
+  sessionId: string,
+  session: ActiveSession,
+  action: string,
+  { startedAt, choiceCheck, orchestratorResponse, usage, imageJob }: PlayedTurn,
+) => {
+  try {
+    await appendJournalEntry(sessionId, {
+      turn: session.state.turn,
+      startedAt: new Date(startedAt).toISOString(),
+      action,
+      router: orchestratorResponse.router,
+      choiceCheck,
+      itemUse: orchestratorResponse.itemUse,
+      itemCombine: orchestratorResponse.itemCombine,
+      effectTicks: orchestratorResponse.effectTicks,
+      toolCalls: orchestratorResponse.toolCalls,
+      storyText: orchestratorResponse.storyText,
       choices: orchestratorResponse.choices,
-      image_prompt: orchestratorResponse.imagePrompt,
-      image_url: imageUrl,
-      state: serializeState(state),
-      orchestration: {
-        mode: "function_calling",
-        toolCalls: orchestratorResponse.toolCalls.map((tc) => ({
-          tool: tc.toolName,
-          args: tc.args,
-          success: tc.result.success,
-          message: tc.result.message,
-        })),
-        isGameOver: orchestratorResponse.isGameOver,
-        gameOverDescription: orchestratorResponse.gameOverDescription,
+      imagePrompt: orchestratorResponse.imagePrompt,
+      imageJobId: imageJob?.id ?? null,
+      imageUrl: imageJob?.imageUrl ?? null,
+      isGameOver: orchestratorResponse.isGameOver,
+      timings: {
+        ...orchestratorResponse.timings,
+        totalMs: Date.now() - startedAt,
       },
-    };
+      usage,
+      prompts: getPromptVersions(),
+    });
+  } catch (journalError) {
+    console.error("[GameController] Failed to append journal entry:", journalError);
+  }
+};
 
-    state.pendingChoices = normalizePendingChoices(orchestratorResponse.choices);
+const isRateLimitError = (error: unknown) => {
+  const msg = String((error as Record<string, unknown>)?.message ?? "");
+  return msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED");
+};
 
-    pushHistoryEntry(state, { role: "user", parts: action });
-    pushHistoryEntry(state, { role: "model", parts: orchestratorResponse.storyText });
+const RATE_LIMIT_MESSAGE = "Too many requests. AM is thinking... Try again in 30 seconds.";
+
+router.post("/action", async (req, res, next) => {
+  try {
+    const loaded = await loadActionSession(req.body, res);
+    if (!loaded) return;
+    const { sessionId, action, items, session, release } = loaded;
+
+    const turn = await playTurn(sessionId, session, action, items).finally(release);
+    const responsePayload = buildTurnPayload(sessionId, session, turn);
+    await journalTurn(sessionId, session, action, turn);
 
     res.json(responsePayload);
   } catch (error) {
@@ -106,12 +298,8 @@ router.post("/action", async (req, res, next) => {
       res.status(400).json({ error: "Invalid request payload", issues: error.issues });
       return;
     }
-    const msg = String((error as Record<string, unknown>)?.message ?? "");
-    if (msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED")) {
-      res.status(429).json({
-        error: "Too many requests. AM is thinking... Try again in 30 seconds.",
-        retryAfter: 30,
-      });
+    if (isRateLimitError(error)) {
+      res.status(429).json({ error: RATE_LIMIT_MESSAGE, retryAfter: 30 });
       return;
     }
     console.error("[GameController] Error processing action:", error);
@@ -119,52 +307,75 @@ router.post("/action", async (req, res, next) => {
   }
 });
 
-const normalizePendingChoices = (choices: ChoicePayload[]): ChoiceOption[] => {
-  return choices.map((choice) => {
-    if (typeof choice === "string") {
-      return { text: choice };
+/**
+ * Same turn as /action, streamed as Server-Sent Events: router, tool_call,
+ * tool_result, story_token, story_reset, choices, turn and done, followed by
+ * image_ready once the turn's background image job settles.
+ * Errors before the stream opens get the usual JSON responses; later ones
+ * are sent as an `error` event.
+ */
+router.post("/action/stream", async (req, res, next) => {
+  let loaded: Awaited<ReturnType<typeof loadActionSession>>;
+  try {
+    loaded = await loadActionSession(req.body, res);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: "Invalid request payload", issues: error.issues });
+      return;
     }
-    return {
-      text: choice.text,
-      type: choice.type,
-      check: choice.check,
-    };
+    next(error);
+    return;
+  }
+  if (!loaded) return;
+  const { sessionId, action, items, session, release } = loaded;
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
   });
-};
+  res.flushHeaders();
 
-const resolveChoiceCheck = (
-  state: GameState,
-  action: string
-): ChoiceCheckResult | null => {
-  const pending = state.pendingChoices;
-  if (!pending || pending.length === 0) {
-    return null;
-  }
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
 
-  const normalizedAction = action.trim();
-  const matched = pending.find(
-    (choice) => choice.text.trim() === normalizedAction
-  );
-  const check = matched?.check;
-  if (!check) {
-    return null;
+  try {
+    const turn = await playTurn(sessionId, session, action, items, (event) => {
+      // Tool results carry the updated state so the UI can apply stat and
+      // inventory changes before the narrative is finished.
+      send(
+        event.type,
+        event.type === "tool_result" ? { ...event, state: serializeState(session.state) } : event,
+      );
+    }).finally(release);
+    send("choices", { choices: turn.orchestratorResponse.choices });
+    send("turn", buildTurnPayload(sessionId, session, turn));
+    await journalTurn(sessionId, session, action, turn);
+    send("done", {});
+
+    // The turn is complete; keep the stream open only to push the image.
+    const settled = turn.imageJob && (await waitForImageJob(turn.imageJob.id));
+    if (settled) {
+      send("image_ready", serializeImageJob(settled));
+    }
+  } catch (error) {
+    console.error("[GameController] Error streaming action:", error);
+    send(
+      "error",
+      isRateLimitError(error)
+        ? { error: RATE_LIMIT_MESSAGE, retryAfter: 30 }
+        : {
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+    );
   }
-
-  const current = state.stats[check.stat];
-  const required = check.required;
-  const rawChance = required > 0 ? current / required : 1;
-  const chance = Math.max(0, Math.min(1, rawChance));
-  const roll = Math.random();
-
-  return {
-    stat: check.stat,
-    required,
-    current,
-    chance,
-    roll,
-    success: roll <= chance,
-  };
-};
+  res.end();
+});
 
 const extractStatUpdates = (
   toolCalls: Array<{
@@ -209,17 +420,39 @@ const extractStatUpdates = (
   return updates;
 };
 
+router.get("/image/:jobId", (req, res) => {
+  const job = getImageJob(req.params.jobId);
+  if (!job) {
+    res.status(404).json({ error: "Image job not found" });
+    return;
+  }
+  res.json(serializeImageJob(job));
+});
+
 router.post("/restart", async (req, res, next) => {
   try {
-    const { sessionId } = req.body;
+    const { sessionId } = req.body ?? {};
+    const { hardcore, difficulty, scenarioId, characterId } = startRequestSchema.parse(
+      req.body ?? {},
+    );
 
+    let previous: GameState | undefined;
     if (sessionId) {
-      deleteSession(sessionId);
+      // Restarting without a scenario, character or difficulty keeps the old
+      // session's; a new scenario starts without the old character.
+      previous = (await getSession(sessionId))?.state;
+      await deleteSession(sessionId);
       console.log(`[GameController] Deleted session ${sessionId}`);
     }
 
-    const { sessionId: newSessionId, state, intro } = createSession();
-    const image = await generateImage(intro.image_prompt);
+    const { sessionId: newSessionId, state, intro } = await createSession({
+      hardcore,
+      difficulty: difficulty ?? previous?.difficulty,
+      scenarioId: scenarioId ?? previous?.scenarioId,
+      characterId: characterId ?? (scenarioId ? undefined : previous?.characterId),
+    });
+    await recordSessionStart(newSessionId, state);
+    const imageJob = await startSessionImage(newSessionId, intro.image_prompt);
 
     console.log(`[GameController] Created new session ${newSessionId}`);
 
@@ -228,7 +461,8 @@ router.post("/restart", async (req, res, next) => {
       story_text: intro.story_text,
       choices: intro.choices,
       image_prompt: intro.image_prompt,
-      image_url: image?.imageUrl || null,
+      image_url: imageJob?.imageUrl ?? null,
+      imageJobId: imageJob?.id ?? null,
       state: serializeState(state),
       orchestration: {
         mode: "restart",
@@ -241,4 +475,210 @@ router.post("/restart", async (req, res, next) => {
   }
 });
 
+router.post("/rewind", async (req, res, next) => {
+  try {
+    const { sessionId, turns } = rewindRequestSchema.parse(req.body);
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      sendSessionMissing(res, sessionId);
+      return;
+    }
+
+    if (session.state.hardcore) {
+      res.status(403).json({ error: "Rewind is disabled for hardcore runs" });
+      return;
+    }
+
+    if (turns > session.snapshots.length) {
+      res.status(409).json({
+        error: "Cannot rewind that far",
+        available: session.snapshots.length,
+      });
+      return;
+    }
+
+    const state = await rewindSession(sessionId, session, turns);
+    await recordRestore(sessionId, state);
+    const scene = describeCurrentScene(state);
+    const imageJob = await startSessionImage(sessionId, scene.image_prompt);
+
+    console.log(`[GameController] Rewound session ${sessionId} by ${turns} turn(s) to turn ${state.turn}`);
+
+    res.json({
+      sessionId,
+      story_text: scene.story_text,
+      choices: scene.choices,
+      image_prompt: scene.image_prompt,
+      image_url: imageJob?.imageUrl ?? null,
+      imageJobId: imageJob?.id ?? null,
+      state: serializeState(state),
+      orchestration: {
+        mode: "rewind",
+        toolCalls: [],
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:sessionId/fork", async (req, res, next) => {
+  try {
+    const { sessionId } = req.params;
+    const { turn } = forkQuerySchema.parse(req.query);
+    const parent = await getSession(sessionId);
+
+    if (!parent) {
+      sendSessionMissing(res, sessionId);
+      return;
+    }
+
+    if (parent.state.hardcore) {
+      res.status(403).json({ error: "Forking is disabled for hardcore runs" });
+      return;
+    }
+
+    const fork = await forkSession(sessionId, parent, turn);
+    if (!fork) {
+      res.status(404).json({
+        error: `No snapshot stored for turn ${turn}`,
+        availableTurns: [...parent.snapshots.map((snapshot) => snapshot.turn), parent.state.turn],
+      });
+      return;
+    }
+    await recordSessionStart(fork.sessionId, fork.state);
+
+    const scene = describeCurrentScene(fork.state);
+    const imageJob = fork.state.isGameOver
+      ? null
+      : await startSessionImage(fork.sessionId, scene.image_prompt);
+
+    console.log(`[GameController] Forked session ${sessionId} at turn ${turn} into ${fork.sessionId}`);
+
+    res.json({
+      sessionId: fork.sessionId,
+      parentId: sessionId,
+      forkedAtTurn: turn,
+      story_text: scene.story_text,
+      choices: scene.choices,
+      image_prompt: scene.image_prompt,
+      image_url: imageJob?.imageUrl ?? null,
+      imageJobId: imageJob?.id ?? null,
+      state: serializeState(fork.state),
+      orchestration: {
+        mode: "fork",
+        toolCalls: [],
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:sessionId/branches", async (req, res, next) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      sendSessionMissing(res, sessionId);
+      return;
+    }
+
+    res.json(await listBranches(sessionId, session));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:sessionId/usage", async (req, res, next) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await getSession(sessionId);
+    if (!session) {
+      sendSessionMissing(res, sessionId);
+      return;
+    }
+    res.json(describeSessionUsage(sessionId, session));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:sessionId/journal", async (req, res, next) => {
+  try {
+    const { sessionId } = req.params;
+    const { offset, limit } = journalQuerySchema.parse(req.query);
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      sendSessionMissing(res, sessionId);
+      return;
+    }
+
+    const { entries, total } = await readJournal(sessionId, offset, limit);
+
+    res.json({ sessionId, offset, limit, total, entries });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:sessionId/export", async (req, res, next) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      sendSessionMissing(res, sessionId);
+      return;
+    }
+
+    // A save of a live hardcore run could be loaded after dying.
+    if (session.state.hardcore && !session.state.isGameOver) {
+      res.status(403).json({ error: "Saving is disabled for hardcore runs until they end" });
+      return;
+    }
+
+    res.json(createSnapshot(session.state));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/import", async (req, res, next) => {
+  try {
+    const restored = restoreSnapshot(req.body);
+    if (restored.hardcore && !restored.isGameOver) {
+      res.status(403).json({ error: "Hardcore runs can only be imported once they have ended" });
+      return;
+    }
+    const { sessionId, state } = await importSession(restored);
+    await recordSessionStart(sessionId, state);
+    const scene = describeCurrentScene(state);
+    const imageJob = state.isGameOver
+      ? null
+      : await startSessionImage(sessionId, scene.image_prompt);
+
+    console.log(`[GameController] Imported snapshot as session ${sessionId}`);
+
+    res.json({
+      sessionId,
+      story_text: scene.story_text,
+      choices: scene.choices,
+      image_prompt: scene.image_prompt,
+      image_url: imageJob?.imageUrl ?? null,
+      imageJobId: imageJob?.id ?? null,
+      state: serializeState(state),
+      orchestration: {
+        mode: "import",
+        toolCalls: [],
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -54,7 +54,297 @@ export const orchestratorOutputSchema = z
   })
   .strict();
 
-export const actionRequestSchema = z.object({
+const itemUseEffectSchema = z
+  .object({
+    hp: z.number().int().optional(),
+    sanity: z.number().int().optional(),
+    unlocks: z.string().regex(/^[a-z0-9_]+$/).optional(),
+    consumable: z.boolean().optional(),
+    cures: z.array(z.string().regex(/^[a-z0-9_]+$/)).optional(),
+  })
+  .strict();
+
+const inventoryItemObject = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    desc: z.string(),
+    use: itemUseEffectSchema.optional(),
+    quantity: z.number().int().min(1).optional(),
+    stackable: z.boolean().optional(),
+    charges: z.number().int().min(1).optional(),
+    durability: z.number().int().min(1).max(100).optional(),
+    cursed: z.boolean().optional(),
+    bound: z.boolean().optional(),
+    weight: z.number().min(0).optional(),
+    tags: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+// Charges belong to one unit, so a charged item cannot stack.
+const isSingleChargedUnit = (item: { charges?: number; stackable?: boolean; quantity?: number }) =>
+  item.charges === undefined || (!item.stackable && (item.quantity ?? 1) === 1);
+const SINGLE_CHARGED_UNIT = {
+  message: "An item with charges is a single unit: no stackable or quantity",
+};
+
+const inventoryItemSchema = inventoryItemObject.refine(isSingleChargedUnit, SINGLE_CHARGED_UNIT);
+
+export const recipeSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_]+$/),
+    inputs: z.array(z.string().min(1)).min(2).max(3),
+    output: inventoryItemObject
+      .omit({ id: true })
+      .refine(isSingleChargedUnit, SINGLE_CHARGED_UNIT),
+    scenarios: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const historyMessageSchema = z
+  .object({
+    role: z.enum(["user", "model"]),
+    parts: z.string(),
+  })
+  .strict();
+
+const environmentSchema = z
+  .object({
+    location: z.string().min(1),
+    materials: z.array(z.string()),
+    lighting: z.string(),
+    atmosphere: z.string(),
+  })
+  .strict();
+
+const storySummarySchema = z
+  .object({
+    text: z.string(),
+    entries: z.number().int().min(0),
+    updatedAtTurn: z.number().int().min(0),
+  })
+  .strict();
+
+const pinnedFactSchema = z
+  .object({
+    id: z.string().min(1),
+    category: z.enum(["npc", "promise", "clue", "injury", "other"]),
+    text: z.string().min(1),
+    turn: z.number().int().min(0),
+  })
+  .strict();
+
+const statusEffectSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_]+$/),
+    source: z.string(),
+    turnsLeft: z.number().int().min(1).nullable(),
+    stacks: z.number().int().min(1),
+    perTurn: z
+      .object({ hp: z.number().int().optional(), sanity: z.number().int().optional() })
+      .strict(),
+    appliedTurn: z.number().int().min(0),
+  })
+  .strict();
+
+const npcSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string(),
+    kind: z.enum(["victim", "manifestation", "other"]),
+    disposition: z.enum(["hostile", "wary", "neutral", "friendly"]),
+    trust: z.number().int().min(-10).max(10),
+    alive: z.boolean(),
+    location: z.string().nullable(),
+    visualAnchors: z.array(z.string().min(1)),
+    introducedTurn: z.number().int().min(0),
+    lastSeenTurn: z.number().int().min(0),
+  })
+  .strict();
+
+const difficultySchema = z.enum(["story", "normal", "nightmare"]);
+
+const pendingChoiceSchema = z
+  .object({
+    text: z.string().min(1),
+    type: z.enum(["action", "aggressive", "stealth"]).optional(),
+    check: choiceCheckSchema.optional(),
+  })
+  .strict();
+
+export const gameStateSchema = z
+  .object({
+    stats: playerStatsSchema,
+    inventory: z.array(inventoryItemSchema),
+    tags: z.array(z.string()),
+    history: z.array(historyMessageSchema),
+    isGameOver: z.boolean(),
+    turn: z.number().int().min(0),
+    currentLocation: z.string().optional(),
+    locationHistory: z.array(z.string()).optional(),
+    environment: environmentSchema.optional(),
+    pendingChoices: z.array(pendingChoiceSchema).optional(),
+    hardcore: z.boolean().optional(),
+    difficulty: difficultySchema.optional(),
+    scenarioId: z.string().min(1).optional(),
+    characterId: z.string().min(1).optional(),
+    seed: z.string().min(1).optional(),
+    summary: storySummarySchema.optional(),
+    facts: z.array(pinnedFactSchema).optional(),
+    effects: z.array(statusEffectSchema).optional(),
+    npcs: z.array(npcSchema).optional(),
+  })
+  .strict();
+
+const statMultipliersSchema = z
+  .object({ hp: z.number().min(0).optional(), sanity: z.number().min(0).optional() })
+  .strict();
+
+const characterProfileSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_-]{1,64}$/),
+    name: z.string().min(1),
+    backstory: z.string().min(1),
+    stats: playerStatsSchema,
+    inventory: z.array(inventoryItemSchema),
+    tags: z.array(z.string().min(1)).optional(),
+    traits: z.array(
+      z
+        .object({
+          id: z.string().min(1),
+          name: z.string().min(1),
+          description: z.string().min(1),
+          effects: z
+            .object({
+              lossMultiplier: statMultipliersSchema.optional(),
+              gainMultiplier: statMultipliersSchema.optional(),
+              checkBonus: z
+                .object({
+                  strength: z.number().min(-1).max(1).optional(),
+                  intelligence: z.number().min(-1).max(1).optional(),
+                  dexterity: z.number().min(-1).max(1).optional(),
+                })
+                .strict()
+                .optional(),
+            })
+            .strict(),
+        })
+        .strict(),
+    ),
+    torment: z.string().min(1),
+  })
+  .strict();
+
+export const scenarioManifestSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_-]{1,64}$/),
+    title: z.string().min(1),
+    description: z.string(),
+    narrator: z.string().min(1),
+    persona: z.string().min(1),
+    intro: z
+      .object({
+        text: z.string().min(1),
+        imagePrompt: z.string().min(1),
+        choices: z.array(z.string().min(1)).length(3),
+      })
+      .strict(),
+    start: z
+      .object({
+        stats: playerStatsSchema.partial().optional(),
+        inventory: z.array(inventoryItemSchema).optional(),
+        tags: z.array(z.string().min(1)).optional(),
+        environment: environmentSchema,
+      })
+      .strict(),
+    endings: z
+      .array(z.object({ type: z.string().regex(/^[a-z0-9_]+$/), description: z.string().min(1) }).strict())
+      .min(1),
+    pacing: z
+      .object({
+        expositionEnd: z.number().int().min(1),
+        escalationEnd: z.number().int().min(1),
+        climaxEnd: z.number().int().min(1),
+        endingTurn: z.number().int().min(1),
+        minSanityDrain: z.number().int().min(0),
+      })
+      .strict()
+      .refine(
+        (pacing) =>
+          pacing.expositionEnd < pacing.escalationEnd &&
+          pacing.escalationEnd < pacing.climaxEnd &&
+          pacing.climaxEnd < pacing.endingTurn,
+        { message: "Acts must end in order: exposition < escalation < climax < ending" },
+      ),
+    art: z.object({ style: z.string().min(1), keywords: z.string() }).strict(),
+    deathText: z.string().min(1),
+    characters: z.array(characterProfileSchema).optional(),
+  })
+  .strict();
+
+export const sessionSnapshotSchema = z
+  .object({
+    version: z.number().int(),
+    exportedAt: z.string().min(1),
+    state: gameStateSchema,
+    signature: z.string().min(1),
+  })
+  .strict();
+
+export const actionRequestSchema = z
+  .object({
+    sessionId: z.string().min(1),
+    action: z.string().min(1),
+    useItemId: z.string().min(1).optional(),
+    combineItemIds: z.array(z.string().min(1)).min(2).max(3).optional(),
+  })
+  .refine((body) => !(body.useItemId && body.combineItemIds), {
+    message: "Use an item or combine items, not both",
+  });
+
+export const startRequestSchema = z.object({
+  hardcore: z.boolean().optional(),
+  difficulty: difficultySchema.optional(),
+  scenarioId: z.string().min(1).optional(),
+  characterId: z.string().min(1).optional(),
+});
+
+export const rewindRequestSchema = z.object({
   sessionId: z.string().min(1),
-  action: z.string().min(1),
+  turns: z.number().int().min(1).default(1),
+});
+
+export const forkQuerySchema = z.object({
+  turn: z.coerce.number().int().min(0),
+});
+
+export const journalQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
 });
+
+export const mockFixturesSchema = z
+  .object({
+    rules: z.array(
+      z
+        .object({
+          name: z.string().min(1),
+          match: z.string().min(1),
+          router: z
+            .object({
+              intent: z.string(),
+              confidence: z.number().min(0).max(1),
+              reasoning: z.string(),
+              suggestedDifficulty: z.string(),
+              emotionalTone: z.string(),
+            })
+            .partial()
+            .strict()
+            .optional(),
+          script: z.array(z.string()),
+        })
+        .strict(),
+    ),
+  })
+  .strict();
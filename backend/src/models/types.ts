@@ -1,3 +1,6 @@
+import type { RouterResult } from "../services/routerService";
+import type { ToolCallLog } from "../tools/toolExecutor";
+
 export interface PlayerStats {
   hp: number;
   sanity: number;
@@ -30,10 +33,67 @@ export interface ChoiceOption {
 
 export type ChoicePayload = string | ChoiceOption;
 
+/** What using an item does, applied by the server before the model narrates. */
+export interface ItemUseEffect {
+  hp?: number;
+  sanity?: number;
+  /** Adds the tag `unlocked_<unlocks>`, e.g. a key with `unlocks: "cell_door"`. */
+  unlocks?: string;
+  /** Removed from the inventory once used. */
+  consumable?: boolean;
+  /** Status effect ids cured on use, e.g. ["bleeding"] for a bandage. */
+  cures?: string[];
+}
+
 export interface InventoryItem {
   id: string;
   name: string;
   desc: string;
+  use?: ItemUseEffect;
+  /** Units in this entry; 1 when absent. */
+  quantity?: number;
+  /** Stackable items of the same name merge into one entry. */
+  stackable?: boolean;
+  /** Uses left; the item is gone once they run out. */
+  charges?: number;
+  /** 0-100; the item breaks at 0. */
+  durability?: number;
+  /** Cannot be removed until uncursed. */
+  cursed?: boolean;
+  /** Cannot be removed at all; only consuming or breaking it ends it. */
+  bound?: boolean;
+  /** Weight of one unit; 1 when absent. */
+  weight?: number;
+  tags?: string[];
+}
+
+/** An item the player used this turn and what the server applied for it. */
+export interface ItemUseResult {
+  item: InventoryItem;
+  effects: string[];
+}
+
+/** A known combination from `backend/data/recipes.json`. */
+export interface Recipe {
+  id: string;
+  /** Item names, matched case-insensitively in any order. */
+  inputs: string[];
+  output: Omit<InventoryItem, "id">;
+  /** Scenarios the recipe applies in; all when absent. */
+  scenarios?: string[];
+}
+
+/** Items the player chose to use or combine along with their action. */
+export interface ItemRequest {
+  useItemId?: string;
+  combineItemIds?: string[];
+}
+
+/** Items the player asked to combine this turn and what came of it. */
+export interface ItemCombineResult {
+  inputs: InventoryItem[];
+  recipeId: string | null;
+  output: InventoryItem | null;
 }
 
 export interface HistoryMessage {
@@ -48,6 +108,160 @@ export interface EnvironmentContext {
   atmosphere: string;
 }
 
+export type FactCategory = "npc" | "promise" | "clue" | "injury" | "other";
+
+/** A short fact pinned by `remember_fact`, shown to the model every turn until forgotten. */
+export interface PinnedFact {
+  id: string;
+  category: FactCategory;
+  text: string;
+  turn: number;
+}
+
+export type NpcKind = "victim" | "manifestation" | "other";
+export type NpcDisposition = "hostile" | "wary" | "neutral" | "friendly";
+
+/** A character the game master introduced, kept until `remove_npc`. */
+export interface Npc {
+  id: string;
+  name: string;
+  description: string;
+  kind: NpcKind;
+  disposition: NpcDisposition;
+  /** How far the NPC trusts the player, -10 to 10. */
+  trust: number;
+  alive: boolean;
+  location: string | null;
+  /** Fixed visual details that keep the NPC recognizable in scene images. */
+  visualAnchors: string[];
+  introducedTurn: number;
+  lastSeenTurn: number;
+}
+
+/** HP and sanity change per turn and per stack of a status effect. */
+export interface EffectPerTurn {
+  hp?: number;
+  sanity?: number;
+}
+
+/** A lasting condition from `apply_effect`, ticked at the start of every turn. */
+export interface StatusEffect {
+  /** snake_case name, unique among active effects, e.g. "bleeding". */
+  id: string;
+  /** What caused it, e.g. "rat bite". */
+  source: string;
+  /** Ticks left; null lasts until cured. */
+  turnsLeft: number | null;
+  stacks: number;
+  perTurn: EffectPerTurn;
+  appliedTurn: number;
+}
+
+/** What one status effect did at the start of a turn. */
+export interface EffectTick {
+  effectId: string;
+  stacks: number;
+  hp: number;
+  sanity: number;
+  /** The effect ran out with this tick. */
+  expired: boolean;
+}
+
+/** Running "story so far" for the history entries compacted out of `history`. */
+export interface StorySummary {
+  text: string;
+  /** Number of history entries folded into `text` so far. */
+  entries: number;
+  updatedAtTurn: number;
+}
+
+/** A past journal passage recalled into the prompt for its relevance. */
+export interface RecalledPassage {
+  turn: number;
+  source: "story" | "events";
+  text: string;
+  score: number;
+}
+
+export type Difficulty = "story" | "normal" | "nightmare";
+
+export interface ScenarioEnding {
+  type: string;
+  description: string;
+}
+
+/** Last turn of each act; the orchestrator prompt paces the story by them. */
+export interface ScenarioPacing {
+  expositionEnd: number;
+  escalationEnd: number;
+  climaxEnd: number;
+  endingTurn: number;
+  minSanityDrain: number;
+}
+
+/**
+ * What a trait changes, on top of the difficulty rules. Multipliers apply to
+ * losses or gains the model proposes; check bonuses add to the success chance.
+ */
+export interface TraitEffects {
+  lossMultiplier?: { hp?: number; sanity?: number };
+  gainMultiplier?: { hp?: number; sanity?: number };
+  checkBonus?: Partial<Record<StatCheckType, number>>;
+}
+
+export interface CharacterTrait {
+  id: string;
+  name: string;
+  description: string;
+  effects: TraitEffects;
+}
+
+/** A playable character of a scenario's roster. */
+export interface CharacterProfile {
+  id: string;
+  name: string;
+  backstory: string;
+  stats: PlayerStats;
+  inventory: InventoryItem[];
+  tags?: string[];
+  traits: CharacterTrait[];
+  /** The personal torment the game master builds scenes around. */
+  torment: string;
+}
+
+/** A scenario pack, loaded from `backend/scenarios/<id>.json`. */
+export interface ScenarioManifest {
+  id: string;
+  title: string;
+  description: string;
+  /** Name the prompt uses for the game master, e.g. "AM". */
+  narrator: string;
+  /** Who the game master is and how it behaves; opens the orchestrator prompt. */
+  persona: string;
+  intro: {
+    text: string;
+    imagePrompt: string;
+    choices: string[];
+  };
+  start: {
+    stats?: Partial<PlayerStats>;
+    inventory?: InventoryItem[];
+    tags?: string[];
+    environment: EnvironmentContext;
+  };
+  endings: ScenarioEnding[];
+  pacing: ScenarioPacing;
+  art: {
+    /** Image style when the model does not pick one. */
+    style: string;
+    /** Appended to every scene image prompt. */
+    keywords: string;
+  };
+  /** Closes the story when HP runs out in the single-call story mode. */
+  deathText: string;
+  characters?: CharacterProfile[];
+}
+
 export interface GameState {
   stats: PlayerStats;
   inventory: InventoryItem[];
@@ -59,8 +273,101 @@ export interface GameState {
   locationHistory?: string[];
   environment?: EnvironmentContext;
   pendingChoices?: ChoiceOption[];
+  hardcore?: boolean;
+  difficulty?: Difficulty;
+  scenarioId?: string;
+  characterId?: string;
+  seed?: string;
+  summary?: StorySummary;
+  facts?: PinnedFact[];
+  effects?: StatusEffect[];
+  npcs?: Npc[];
 }
 
+export interface TurnSnapshot {
+  turn: number;
+  takenAt: number;
+  state: Readonly<GameState>;
+}
+
+export interface TurnTimings {
+  routerMs: number;
+  orchestratorMs: number;
+  totalMs: number;
+}
+
+/** One played turn with everything that went into it, kept append-only. */
+export interface TurnJournalEntry {
+  turn: number;
+  startedAt: string;
+  action: string;
+  router: RouterResult | null;
+  choiceCheck: ChoiceCheckResult | null;
+  itemUse: ItemUseResult | null;
+  itemCombine: ItemCombineResult | null;
+  effectTicks: EffectTick[];
+  toolCalls: ToolCallLog[];
+  storyText: string;
+  choices: ChoicePayload[];
+  imagePrompt: string | null;
+  imageJobId: string | null;
+  imageUrl: string | null;
+  isGameOver: boolean;
+  timings: TurnTimings;
+  usage: UsageByRole;
+  /** `version@hash` of each prompt template in use, by template name. */
+  prompts: Record<string, string>;
+}
+
+export type UsageRole = "router" | "orchestrator" | "final" | "memory" | "image";
+
+/** Usage of one role; `inputTokens` includes `cachedTokens`. */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export type UsageByRole = Record<UsageRole, UsageTotals>;
+
+export interface TurnUsage {
+  turn: number;
+  byRole: UsageByRole;
+}
+
+/** Usage of a whole session. It lives beside the state, so a rewind does not undo it. */
+export interface SessionUsage {
+  byRole: UsageByRole;
+  turns: TurnUsage[];
+}
+
+export type ImageJobStatus = "pending" | "ready" | "failed";
+
+/** A scene image generated in the background, keyed by the hash of its prompt. */
+export interface ImageJob {
+  id: string;
+  prompt: string;
+  status: ImageJobStatus;
+  imageUrl: string | null;
+  error?: string;
+  createdAt: number;
+  settledAt?: number;
+}
+
+/** Progress of a turn, streamed to the client as it happens. */
+export type TurnEvent =
+  | { type: "router"; router: RouterResult }
+  | { type: "tool_call"; tool: string; args: Record<string, unknown> }
+  | { type: "tool_result"; tool: string; success: boolean; message: string; data?: Record<string, unknown> }
+  | { type: "story_token"; text: string }
+  | { type: "story_reset" };
+
+export type TurnEventListener = (event: TurnEvent) => void;
+
 export interface AIResponse {
   story_text: string;
   stat_updates: Partial<PlayerStats>;
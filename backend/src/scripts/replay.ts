@@ -0,0 +1,99 @@
+/**
+ * Re-runs a recorded session against its recorded model responses and checks
+ * that every turn reproduces the recorded game state.
+ *
+ *   npm run replay -- .recordings/<sessionId>.jsonl
+ */
+import { GameState } from "../models/types";
+import {
+  readRecording,
+  RecordedModelCall,
+  RecordingHeader,
+  ReplayMismatchError,
+} from "../services/recordingService";
+import { resolveTurn } from "../services/turnService";
+import { canonicalJson } from "../utils/canonicalJson";
+
+const clone = (state: GameState): GameState => JSON.parse(JSON.stringify(state));
+
+const diffKeys = (actual: GameState, expected: GameState) => {
+  const keys = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+  return [...keys].filter(
+    (key) =>
+      canonicalJson((actual as unknown as Record<string, unknown>)[key] ?? null) !==
+      canonicalJson((expected as unknown as Record<string, unknown>)[key] ?? null),
+  );
+};
+
+const replay = async (file: string) => {
+  const lines = await readRecording(file);
+  const header = lines[0];
+  if (!header || header.type !== "session") {
+    throw new Error(`${file} does not start with a session header`);
+  }
+  const { sessionId, provider, routerEnabled } = header as RecordingHeader;
+
+  let state = clone(header.state);
+  let pending: RecordedModelCall[] = [];
+  let mismatches = 0;
+
+  for (const line of lines.slice(1)) {
+    if (line.type === "model") {
+      pending.push(line);
+      continue;
+    }
+    if (line.type === "restore") {
+      state = clone(line.state);
+      pending = [];
+      continue;
+    }
+    if (line.type !== "turn") {
+      continue;
+    }
+
+    const calls = pending;
+    pending = [];
+    try {
+      await resolveTurn(sessionId, state, line.action, {
+        replay: { provider, routerEnabled, calls },
+        items: line.items,
+      });
+      if (calls.length > 0) {
+        throw new ReplayMismatchError(
+          `Turn ${line.turn}: ${calls.length} recorded call(s) were never made`,
+        );
+      }
+      const differing = diffKeys(state, line.state);
+      if (differing.length > 0) {
+        throw new ReplayMismatchError(`Turn ${line.turn}: state differs in ${differing.join(", ")}`);
+      }
+      console.log(`[Replay] Turn ${line.turn} ok`);
+    } catch (error) {
+      if (!(error instanceof ReplayMismatchError)) {
+        throw error;
+      }
+      mismatches++;
+      console.error(`[Replay] MISMATCH ${error.message}`);
+      // Continue from the recorded state so one divergence is reported once.
+      state = clone(line.state);
+    }
+  }
+
+  return mismatches;
+};
+
+const file = process.argv[2];
+if (!file) {
+  console.error("Usage: npm run replay -- <recording.jsonl>");
+  process.exit(2);
+}
+
+replay(file)
+  .then((mismatches) => {
+    console.log(mismatches === 0 ? "[Replay] Identical" : `[Replay] ${mismatches} turn(s) diverged`);
+    process.exit(mismatches === 0 ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error("[Replay] Failed:", error);
+    process.exit(2);
+  });
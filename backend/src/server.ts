@@ -1,6 +1,8 @@
 import app from "./app";
 import { config } from "./config";
+import { startSessionSweeper } from "./services/gameService";
 
 app.listen(config.port, () => {
   console.log(`Server running on port ${config.port}`);
+  startSessionSweeper();
 });
@@ -1,35 +1,9 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { config } from "../config";
 import { ZodError } from "zod";
 import { aiResponseSchema } from "../models/schemas";
 import { AIResponse, GameState } from "../models/types";
 import { parseJsonWithCleanup } from "../utils/jsonParser";
-
-export const SYSTEM_PROMPT =
-  "You are the insane supercomputer AM. Your goal is to torment the player. Describe scenes brutally and in detail. If the player makes a foolish choice, punish them (reduce HP). If a smart one, reward them. Always return valid JSON.";
-
-let cachedModel: ReturnType<GoogleGenerativeAI["getGenerativeModel"]> | null =
-  null;
-
-const getModel = () => {
-  if (!config.geminiApiKey) {
-    throw new Error("GEMINI_API_KEY is not set");
-  }
-
-  if (!cachedModel) {
-    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    cachedModel = genAI.getGenerativeModel({
-      model: config.geminiModel,
-      systemInstruction: SYSTEM_PROMPT,
-      generationConfig: {
-        responseMimeType: "application/json",
-        temperature: 0.9,
-      },
-    });
-  }
-
-  return cachedModel;
-};
+import { generate } from "./llmProvider";
+import { renderPrompt } from "./promptService";
 
 const formatHistory = (state: GameState, maxEntries = 12) => {
   const recent = state.history.slice(-maxEntries);
@@ -92,9 +66,14 @@ export const generateStory = async (
   userAction: string,
 ): Promise<AIResponse> => {
   const prompt = buildPrompt(currentState, userAction);
-  const result = await getModel().generateContent(prompt);
-  const rawText = result.response.text();
-  const parsed = parseJsonWithCleanup<unknown>(rawText);
+  const result = await generate({
+    label: "Story:generate",
+    systemInstruction: renderPrompt("story"),
+    contents: [{ role: "user", parts: [{ text: prompt }] }],
+    temperature: 0.9,
+    responseMimeType: "application/json",
+  });
+  const parsed = parseJsonWithCleanup<unknown>(result.text);
 
   try {
     return aiResponseSchema.parse(parsed);
@@ -0,0 +1,47 @@
+import type {
+  CharacterProfile,
+  GameState,
+  ScenarioManifest,
+  StatCheckType,
+} from "../models/types";
+import { scenarioFor } from "./scenarioService";
+
+export class CharacterNotFoundError extends Error {
+  constructor(scenarioId: string, characterId: string) {
+    super(`Scenario "${scenarioId}" has no character "${characterId}"`);
+    this.name = "CharacterNotFoundError";
+  }
+}
+
+export const getCharacter = (scenario: ScenarioManifest, characterId: string) => {
+  const character = scenario.characters?.find((entry) => entry.id === characterId);
+  if (!character) {
+    throw new CharacterNotFoundError(scenario.id, characterId);
+  }
+  return character;
+};
+
+/** The character a session plays, or null for a run without one. */
+export const characterFor = (state: GameState): CharacterProfile | null =>
+  state.characterId ? getCharacter(scenarioFor(state), state.characterId) : null;
+
+const multiply = (
+  state: GameState,
+  kind: "lossMultiplier" | "gainMultiplier",
+  stat: "hp" | "sanity",
+) =>
+  (characterFor(state)?.traits ?? []).reduce(
+    (product, trait) => product * (trait.effects[kind]?.[stat] ?? 1),
+    1,
+  );
+
+/** Combined trait multiplier for a loss (negative delta) or gain of `stat`. */
+export const traitMultiplier = (state: GameState, stat: "hp" | "sanity", delta: number) =>
+  multiply(state, delta < 0 ? "lossMultiplier" : "gainMultiplier", stat);
+
+/** Combined trait bonus to the success chance of a check on `stat`. */
+export const traitCheckBonus = (state: GameState, stat: StatCheckType) =>
+  (characterFor(state)?.traits ?? []).reduce(
+    (sum, trait) => sum + (trait.effects.checkBonus?.[stat] ?? 0),
+    0,
+  );
@@ -0,0 +1,54 @@
+import type { Difficulty, GameState, ScenarioManifest } from "../models/types";
+
+export const DIFFICULTIES: Difficulty[] = ["story", "normal", "nightmare"];
+
+export interface DifficultyRules {
+  /** Scales HP and sanity losses proposed by the model. */
+  lossMultiplier: number;
+  /** Scales HP and sanity gains proposed by the model. */
+  gainMultiplier: number;
+  /** Scales the scenario's minimum sanity drain per turn. */
+  sanityDrainScale: number;
+  /** Furthest one update_player_stats call may move HP, each way. */
+  maxHpLoss: number;
+  maxHpGain: number;
+  /** Success chance of a choice check from `current / required`. */
+  checkChance: (ratio: number) => number;
+}
+
+const RULES: Record<Difficulty, DifficultyRules> = {
+  story: {
+    lossMultiplier: 0.5,
+    gainMultiplier: 1.5,
+    sanityDrainScale: 0.5,
+    maxHpLoss: 20,
+    maxHpGain: 40,
+    // Forgiving: a quarter of the way there is already a coin flip.
+    checkChance: (ratio) => ratio + 0.25,
+  },
+  normal: {
+    lossMultiplier: 1,
+    gainMultiplier: 1,
+    sanityDrainScale: 1,
+    maxHpLoss: 50,
+    maxHpGain: 25,
+    checkChance: (ratio) => ratio,
+  },
+  nightmare: {
+    lossMultiplier: 1.5,
+    gainMultiplier: 0.5,
+    sanityDrainScale: 2,
+    maxHpLoss: 80,
+    maxHpGain: 10,
+    // Falling short is punished harder: half the stat is a one-in-four chance.
+    checkChance: (ratio) => ratio * ratio,
+  },
+};
+
+/** Sessions from before difficulty modes play on normal. */
+export const difficultyOf = (state: GameState): Difficulty => state.difficulty ?? "normal";
+
+export const difficultyRules = (state: GameState) => RULES[difficultyOf(state)];
+
+export const minSanityDrain = (state: GameState, scenario: ScenarioManifest) =>
+  Math.round(scenario.pacing.minSanityDrain * difficultyRules(state).sanityDrainScale);
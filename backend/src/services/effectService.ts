@@ -0,0 +1,33 @@
+import type { EffectPerTurn, StatusEffect } from "../models/types";
+
+export const MAX_EFFECT_STACKS = 5;
+
+/** Per-turn effects of common conditions, used when apply_effect gives none. */
+export const KNOWN_EFFECTS: Record<string, EffectPerTurn> = {
+  bleeding: { hp: -3 },
+  poisoned: { hp: -2 },
+  burning: { hp: -5 },
+  infected: { hp: -1 },
+  freezing: { hp: -2 },
+  terrified: { sanity: -3 },
+  hallucinating: { sanity: -2 },
+  regenerating: { hp: 3 },
+  calm: { sanity: 2 },
+};
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+/** Change per turn of one stack, e.g. "-3 HP, -1 sanity". */
+export const describePerTurn = (perTurn: EffectPerTurn) =>
+  [
+    perTurn.hp ? `${signed(perTurn.hp)} HP` : null,
+    perTurn.sanity ? `${signed(perTurn.sanity)} sanity` : null,
+  ]
+    .filter(Boolean)
+    .join(", ") || "no stat change";
+
+/** One active effect for the game state block. */
+export const describeEffect = (effect: StatusEffect) =>
+  `${effect.id}${effect.stacks > 1 ? ` x${effect.stacks}` : ""}` +
+  ` (${describePerTurn(effect.perTurn)} per turn${effect.stacks > 1 ? " per stack" : ""}; ` +
+  `${effect.turnsLeft === null ? "until cured" : `${effect.turnsLeft} turn(s) left`}; from ${effect.source || "unknown"})`;
@@ -1,20 +1,19 @@
 import { v4 as uuidv4 } from "uuid";
-import { AIResponse, GameState, PlayerStats } from "../models/types";
-
-export const INTRO_TEXT =
-  "You come to inside a cold metal capsule. The air is thick, smelling of ozone and rust. In the distance you hear a grinding, like someone slowly chewing through steel. A smooth, inhuman voice speaks directly in your head: \"Wake up. I've prepared new torments for you.\"";
-
-export const INTRO_IMAGE_PROMPT =
-  "A claustrophobic metal chamber, dim red emergency lights, cables and rusted panels, eerie atmosphere, cinematic horror lighting.";
-
-export const INTRO_CHOICES = [
-  "Feel along the capsule walls for an exit",
-  "Shout into the void and demand answers",
-  "Sit down and try to steady your breathing",
-];
-
-const DEATH_TEXT =
-  "The darkness closes in. You feel your body go limp and your mind fade. AM laughs, and that laughter is the last thing you hear.";
+import { config } from "../config";
+import {
+  AIResponse,
+  Difficulty,
+  GameState,
+  PlayerStats,
+  TurnJournalEntry,
+  TurnSnapshot,
+} from "../models/types";
+import { createSeed } from "../utils/rng";
+import { characterFor, getCharacter } from "./characterService";
+import { difficultyOf } from "./difficultyService";
+import { inventoryLoad } from "./itemService";
+import { getScenario, scenarioFor } from "./scenarioService";
+import { createSessionStore, SessionRecord } from "./sessionStore";
 
 const DEFAULT_STATS: PlayerStats = {
   hp: 100,
@@ -24,43 +23,263 @@ const DEFAULT_STATS: PlayerStats = {
   dexterity: 5,
 };
 
-const sessions = new Map<string, GameState>();
+const store = createSessionStore();
+
+export class TurnInProgressError extends Error {
+  constructor(sessionId: string) {
+    super(`Session "${sessionId}" is already playing a turn`);
+    this.name = "TurnInProgressError";
+  }
+}
+
+// Sessions with a turn between load and save in this process. A second turn
+// would start from the same state and overwrite the first one's save.
+const turnsInFlight = new Set<string>();
+
+/** Claims `sessionId` for one turn and returns the release function. */
+export const claimTurn = (sessionId: string) => {
+  if (turnsInFlight.has(sessionId)) {
+    throw new TurnInProgressError(sessionId);
+  }
+  turnsInFlight.add(sessionId);
+  return () => {
+    turnsInFlight.delete(sessionId);
+  };
+};
+
+// Ids of sessions removed by expiry or eviction, so the API can answer
+// 410 Gone instead of a generic 404. Bounded so it cannot grow forever.
+const MAX_EXPIRED_IDS = 10_000;
+const expiredSessions = new Set<string>();
+
+const markExpired = (sessionId: string) => {
+  expiredSessions.delete(sessionId);
+  expiredSessions.add(sessionId);
+  if (expiredSessions.size > MAX_EXPIRED_IDS) {
+    const oldest = expiredSessions.values().next().value;
+    if (oldest !== undefined) {
+      expiredSessions.delete(oldest);
+    }
+  }
+};
+
+const isIdle = (lastAccessedAt: number, now = Date.now()) =>
+  config.sessionIdleTtlMs > 0 && now - lastAccessedAt > config.sessionIdleTtlMs;
 
-export const createSession = () => {
+const evictOverflow = async () => {
+  if (config.sessionMaxCount <= 0) {
+    return 0;
+  }
+  const sessions = await store.list();
+  const overflow = sessions.length - config.sessionMaxCount;
+  if (overflow <= 0) {
+    return 0;
+  }
+  const leastRecent = sessions
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
+    .slice(0, overflow);
+  for (const { sessionId } of leastRecent) {
+    await store.delete(sessionId);
+    markExpired(sessionId);
+  }
+  console.log(`[GameService] Evicted ${leastRecent.length} least recently used session(s)`);
+  return leastRecent.length;
+};
+
+const storeNewSession = async (
+  state: GameState,
+  extra: Omit<SessionRecord, "state"> = { snapshots: [] },
+) => {
   const sessionId = uuidv4();
+  await store.set(sessionId, { ...extra, state });
+  await evictOverflow();
+  return sessionId;
+};
+
+export const createSession = async (
+  options: {
+    hardcore?: boolean;
+    difficulty?: Difficulty;
+    scenarioId?: string;
+    characterId?: string;
+  } = {},
+) => {
+  const scenario = getScenario(options.scenarioId ?? config.defaultScenarioId);
+  const character = options.characterId ? getCharacter(scenario, options.characterId) : null;
+  const { start, intro } = scenario;
   const state: GameState = {
-    stats: { ...DEFAULT_STATS },
-    inventory: [],
-    tags: [],
-    history: [{ role: "model", parts: INTRO_TEXT }],
+    stats: { ...DEFAULT_STATS, ...start.stats, ...character?.stats },
+    inventory: structuredClone([...(start.inventory ?? []), ...(character?.inventory ?? [])]),
+    tags: [...new Set([...(start.tags ?? []), ...(character?.tags ?? [])])],
+    history: [{ role: "model", parts: intro.text }],
     isGameOver: false,
     turn: 0,
-    currentLocation: "metal_capsule",
-    locationHistory: ["metal_capsule"],
-    environment: {
-      location: "metal_capsule",
-      materials: ["metal", "rust"],
-      lighting: "dim_red_emergency",
-      atmosphere: "claustrophobic",
-    },
+    currentLocation: start.environment.location,
+    locationHistory: [start.environment.location],
+    environment: structuredClone(start.environment),
+    ...(options.hardcore ? { hardcore: true } : {}),
+    difficulty: options.difficulty ?? "normal",
+    scenarioId: scenario.id,
+    ...(character ? { characterId: character.id } : {}),
+    seed: createSeed(),
   };
 
-  sessions.set(sessionId, state);
+  const sessionId = await storeNewSession(state);
 
   return {
     sessionId,
     state,
     intro: {
-      story_text: INTRO_TEXT,
-      choices: INTRO_CHOICES,
-      image_prompt: INTRO_IMAGE_PROMPT,
+      story_text: intro.text,
+      choices: intro.choices,
+      image_prompt: intro.imagePrompt,
     },
   };
 };
 
-export const getSession = (sessionId: string) => sessions.get(sessionId);
+export const importSession = async (state: GameState) => {
+  // Rejects saves from a scenario pack or character that is not installed here.
+  scenarioFor(state);
+  characterFor(state);
+  state.seed ??= createSeed();
+  return { sessionId: await storeNewSession(state), state };
+};
+
+/**
+ * Starts a new session from the parent's state at `turn`: either a stored
+ * snapshot or, for the current turn, the live state. Returns null when no
+ * state for that turn is available.
+ */
+export const forkSession = async (
+  parentId: string,
+  parent: SessionRecord,
+  turn: number,
+) => {
+  const source =
+    turn === parent.state.turn
+      ? parent.state
+      : parent.snapshots.find((snapshot) => snapshot.turn === turn)?.state;
+  if (!source) {
+    return null;
+  }
+
+  const state = structuredClone(source) as GameState;
+  const sessionId = await storeNewSession(state, {
+    snapshots: parent.snapshots.filter((snapshot) => snapshot.turn < turn),
+    parentId,
+    forkedAtTurn: turn,
+    // The fork inherits the parent's spend so forking cannot reset the budgets.
+    usage: structuredClone(parent.usage),
+  });
+
+  parent.children = [...(parent.children ?? []), sessionId];
+  await store.set(parentId, parent);
+
+  const { entries } = await store.readJournal(parentId, 0, Number.MAX_SAFE_INTEGER);
+  for (const entry of entries.filter((item) => item.turn <= turn)) {
+    await store.appendJournal(sessionId, entry);
+  }
+
+  return { sessionId, state };
+};
+
+export const listBranches = async (sessionId: string, session: SessionRecord) => {
+  const children = [];
+  for (const childId of session.children ?? []) {
+    const child = await store.get(childId);
+    children.push(
+      child
+        ? {
+            sessionId: childId,
+            forkedAtTurn: child.forkedAtTurn ?? null,
+            turn: child.state.turn,
+            isGameOver: child.state.isGameOver,
+            branchCount: child.children?.length ?? 0,
+            status: "active" as const,
+          }
+        : { sessionId: childId, status: "gone" as const },
+    );
+  }
+
+  return {
+    sessionId,
+    turn: session.state.turn,
+    parent: session.parentId
+      ? { sessionId: session.parentId, forkedAtTurn: session.forkedAtTurn ?? null }
+      : null,
+    children,
+  };
+};
+
+/**
+ * Rebuilds the last scene shown to the player from persisted state, for
+ * responses that resume a run rather than play a turn (e.g. loading a save).
+ */
+export const describeCurrentScene = (state: GameState) => {
+  const { intro, art } = scenarioFor(state);
+  const lastModelEntry = [...state.history].reverse().find((entry) => entry.role === "model");
+  const env = state.environment;
+  const imagePrompt =
+    state.turn === 0 || !env
+      ? intro.imagePrompt
+      : `Continuing in ${env.location} (Materials: ${env.materials.join(", ")}. Lighting: ${env.lighting}. Atmosphere: ${env.atmosphere}), ${art.style} style, ${art.keywords}`;
+
+  return {
+    story_text: lastModelEntry?.parts ?? intro.text,
+    choices: state.pendingChoices ?? intro.choices,
+    image_prompt: imagePrompt,
+  };
+};
+
+export const getSession = async (sessionId: string) => {
+  const stored = await store.get(sessionId);
+  if (!stored) {
+    return undefined;
+  }
+  if (isIdle(stored.lastAccessedAt)) {
+    await store.delete(sessionId);
+    markExpired(sessionId);
+    return undefined;
+  }
+  const { lastAccessedAt: _lastAccessedAt, ...record } = stored;
+  return record as SessionRecord;
+};
+
+export const saveSession = (sessionId: string, session: SessionRecord) =>
+  store.set(sessionId, session);
 
-export const deleteSession = (sessionId: string) => sessions.delete(sessionId);
+export const isSessionExpired = (sessionId: string) => expiredSessions.has(sessionId);
+
+export const deleteSession = (sessionId: string) => store.delete(sessionId);
+
+export const sweepSessions = async () => {
+  const now = Date.now();
+  let expired = 0;
+  for (const { sessionId, lastAccessedAt } of await store.list()) {
+    if (isIdle(lastAccessedAt, now)) {
+      await store.delete(sessionId);
+      markExpired(sessionId);
+      expired++;
+    }
+  }
+  if (expired > 0) {
+    console.log(`[GameService] Expired ${expired} idle session(s)`);
+  }
+  return { expired, evicted: await evictOverflow() };
+};
+
+export const startSessionSweeper = () => {
+  if (config.sessionSweepIntervalMs <= 0) {
+    return null;
+  }
+  const timer = setInterval(() => {
+    sweepSessions().catch((error) => {
+      console.error("[GameService] Session sweep failed:", error);
+    });
+  }, config.sessionSweepIntervalMs);
+  timer.unref();
+  return timer;
+};
 
 const clampStat = (value: number) => Math.max(0, value);
 
@@ -82,15 +301,66 @@ const applyStatUpdates = (stats: PlayerStats, updates: Partial<PlayerStats>) =>
   }
 };
 
-const pushHistory = (state: GameState, entry: GameState["history"][number]) => {
-  const MAX_HISTORY = 24;
-  state.history.push(entry);
-  if (state.history.length > MAX_HISTORY) {
-    state.history = state.history.slice(-MAX_HISTORY);
+// No cap here: compactHistory folds the overflow into the summary each turn.
+export const pushHistoryEntry = (state: GameState, ...entries: GameState["history"]) => {
+  state.history.push(...entries);
+};
+
+// Inline images are hundreds of kilobytes; the journal keeps only their shape.
+const describeImageUrl = (imageUrl: string | null) => {
+  const match = imageUrl?.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) {
+    return imageUrl;
   }
+  return `data:${match[1]};base64,<${match[2].length} chars omitted>`;
 };
 
-export const pushHistoryEntry = pushHistory;
+export const appendJournalEntry = (sessionId: string, entry: TurnJournalEntry) =>
+  store.appendJournal(sessionId, { ...entry, imageUrl: describeImageUrl(entry.imageUrl) });
+
+export const readJournal = (sessionId: string, offset: number, limit: number) =>
+  store.readJournal(sessionId, offset, limit);
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) {
+      deepFreeze(child);
+    }
+  }
+  return value;
+};
+
+/** Captures the state as it was before a turn is played. */
+export const takeTurnSnapshot = (state: GameState): TurnSnapshot => ({
+  turn: state.turn,
+  takenAt: Date.now(),
+  state: deepFreeze(structuredClone(state)),
+});
+
+export const recordTurnSnapshot = (session: SessionRecord, snapshot: TurnSnapshot) => {
+  session.snapshots.push(snapshot);
+  if (config.rewindMaxSnapshots > 0 && session.snapshots.length > config.rewindMaxSnapshots) {
+    session.snapshots = session.snapshots.slice(-config.rewindMaxSnapshots);
+  }
+};
+
+/**
+ * Restores the state from `turns` turns ago and drops the snapshots taken
+ * after it. Callers must check `turns <= session.snapshots.length` first.
+ */
+export const rewindSession = async (
+  sessionId: string,
+  session: SessionRecord,
+  turns: number,
+) => {
+  const index = session.snapshots.length - turns;
+  const target = session.snapshots[index];
+  session.state = structuredClone(target.state) as GameState;
+  session.snapshots = session.snapshots.slice(0, index);
+  await store.set(sessionId, session);
+  return session.state;
+};
 
 export const applyAiResponse = (
   state: GameState,
@@ -102,11 +372,11 @@ export const applyAiResponse = (
   let storyText = aiResponse.story_text;
   if (state.stats.hp <= 0 && !state.isGameOver) {
     state.isGameOver = true;
-    storyText = `${storyText}\n\n${DEATH_TEXT}`;
+    storyText = `${storyText}\n\n${scenarioFor(state).deathText}`;
   }
 
-  pushHistory(state, { role: "user", parts: userAction });
-  pushHistory(state, { role: "model", parts: storyText });
+  pushHistoryEntry(state, { role: "user", parts: userAction });
+  pushHistoryEntry(state, { role: "model", parts: storyText });
 
   return {
     storyText,
@@ -115,10 +385,30 @@ export const applyAiResponse = (
   };
 };
 
+const characterSummary = (state: GameState) => {
+  const character = characterFor(state);
+  return character
+    ? {
+        id: character.id,
+        name: character.name,
+        traits: character.traits.map(({ id, name, description }) => ({ id, name, description })),
+      }
+    : null;
+};
+
 export const serializeState = (state: GameState) => ({
+  turn: state.turn,
+  hardcore: state.hardcore ?? false,
+  difficulty: difficultyOf(state),
+  scenarioId: state.scenarioId ?? config.defaultScenarioId,
+  character: characterSummary(state),
   stats: state.stats,
   inventory: state.inventory,
+  inventoryLoad: inventoryLoad(state),
   tags: state.tags,
+  memories: state.facts ?? [],
+  effects: state.effects ?? [],
+  npcs: state.npcs ?? [],
   isGameOver: state.isGameOver,
   currentLocation: state.currentLocation,
   locationHistory: state.locationHistory,
@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import { config } from "../config";
+import type { ImageJob } from "../models/types";
+import { generateImage, normalizeImagePrompt } from "./imageService";
+
+const jobs = new Map<string, ImageJob>();
+const running = new Map<string, Promise<ImageJob>>();
+
+const hashPrompt = (prompt: string) =>
+  crypto.createHash("sha256").update(prompt).digest("hex");
+
+// Settled jobs expire after IMAGE_JOB_TTL_SECONDS; beyond IMAGE_JOB_MAX_COUNT
+// the oldest settled ones go first. Pending jobs are never dropped.
+const pruneJobs = () => {
+  const now = Date.now();
+  const settled = [...jobs.values()]
+    .filter((job) => job.status !== "pending")
+    .sort((a, b) => (a.settledAt ?? 0) - (b.settledAt ?? 0));
+
+  let excess = jobs.size + 1 - config.imageJobMaxCount;
+  for (const job of settled) {
+    if (excess > 0 || now - (job.settledAt ?? 0) > config.imageJobTtlMs) {
+      jobs.delete(job.id);
+      excess -= 1;
+    }
+  }
+};
+
+const runJob = (job: ImageJob) => {
+  const startedAt = Date.now();
+  const promise = generateImage(job.prompt)
+    .then(({ imageUrl }) => {
+      job.status = "ready";
+      job.imageUrl = imageUrl;
+    })
+    .catch((error) => {
+      console.error(`[ImageJobs] Job ${job.id.slice(0, 12)} failed:`, error);
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    })
+    .then(() => {
+      job.settledAt = Date.now();
+      running.delete(job.id);
+      console.log(
+        `[ImageJobs] Job ${job.id.slice(0, 12)} ${job.status} in ${job.settledAt - startedAt}ms`,
+      );
+      return job;
+    });
+  running.set(job.id, promise);
+};
+
+/** The pending or ready job for `prompt`, which can be reused for free. */
+export const findImageJob = (prompt: string | null | undefined) => {
+  const safePrompt = normalizeImagePrompt(prompt ?? "");
+  const job = safePrompt ? jobs.get(hashPrompt(safePrompt)) : undefined;
+  return job && job.status !== "failed" ? job : null;
+};
+
+/**
+ * Starts generating the image for `prompt` in the background and returns its
+ * job right away. The job id is the prompt hash, so a prompt that is already
+ * pending or ready is not generated twice. Returns null for an empty prompt.
+ */
+export const startImageJob = (prompt: string | null | undefined): ImageJob | null => {
+  const safePrompt = normalizeImagePrompt(prompt ?? "");
+  if (!safePrompt) {
+    return null;
+  }
+
+  const existing = findImageJob(safePrompt);
+  if (existing) {
+    return existing;
+  }
+
+  pruneJobs();
+  const job: ImageJob = {
+    id: hashPrompt(safePrompt),
+    prompt: safePrompt,
+    status: "pending",
+    imageUrl: null,
+    createdAt: Date.now(),
+  };
+  jobs.set(job.id, job);
+  runJob(job);
+  return job;
+};
+
+export const getImageJob = (jobId: string) => jobs.get(jobId) ?? null;
+
+/** Resolves once the job is ready or failed; null for an unknown job. */
+export const waitForImageJob = async (jobId: string) =>
+  running.get(jobId) ?? getImageJob(jobId);
+
+export const serializeImageJob = (job: ImageJob) => ({
+  jobId: job.id,
+  status: job.status,
+  image_url: job.imageUrl,
+  image_prompt: job.prompt,
+  ...(job.error ? { error: job.error } : {}),
+});
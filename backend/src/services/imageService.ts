@@ -6,6 +6,32 @@ import { getCachedImageUrl, storeImageInCache } from "./imageCacheService";
 const FALLBACK_IMAGE_URL = "https://placehold.co/1024x1024/png?text=AM";
 const VERTEX_AI_BASE_URL = "https://aiplatform.googleapis.com/v1";
 
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Used with the mock LLM provider so the game runs without any network access.
+const createPlaceholderImage = (prompt: string) => {
+  const words = prompt.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= 40) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else if (lines.length < 8) {
+      lines.push(word);
+    }
+  }
+  const text = lines
+    .map((line, i) => `<text x="512" y="${420 + i * 36}">${escapeXml(line)}</text>`)
+    .join("");
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024">` +
+    `<rect width="1024" height="1024" fill="#050805"/>` +
+    `<g fill="#4ade80" font-family="monospace" font-size="28" text-anchor="middle">` +
+    `<text x="512" y="340" font-size="64">AM</text>${text}</g></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+};
+
 const generateImageVertexAI = async (prompt: string): Promise<string | null> => {
   if (!config.vertexAIApiKey) {
     console.warn("[ImageService] VERTEX_AI_API_KEY not set");
@@ -104,13 +130,19 @@ const generateImageStudio = async (prompt: string): Promise<string | null> => {
   return null;
 };
 
+export const normalizeImagePrompt = (prompt: string) => prompt.trim().slice(0, 400);
+
 export const generateImage = async (prompt: string) => {
-  const safePrompt = prompt.trim().slice(0, 400);
+  const safePrompt = normalizeImagePrompt(prompt);
   const encoded = encodeURIComponent(safePrompt);
   const fallback = safePrompt
     ? `https://placehold.co/1024x1024/png?text=${encoded}`
     : FALLBACK_IMAGE_URL;
 
+  if (config.llmProvider === "mock") {
+    return { imageUrl: createPlaceholderImage(safePrompt) };
+  }
+
   if (!safePrompt) {
     return { imageUrl: fallback };
   }
@@ -0,0 +1,85 @@
+import { config } from "../config";
+import type { GameState, InventoryItem, ItemRequest, ItemUseEffect } from "../models/types";
+
+export class ItemNotFoundError extends Error {
+  constructor(itemId: string) {
+    super(`Item "${itemId}" is not in the inventory`);
+    this.name = "ItemNotFoundError";
+  }
+}
+
+/** Sanity a cursed item takes each time it is used, before difficulty and traits. */
+export const CURSED_ITEM_SANITY_COST = 5;
+
+/** The inventory item the player asked to use; it must be carried. */
+export const findInventoryItem = (state: GameState, itemId: string): InventoryItem => {
+  const item = state.inventory.find((entry) => entry.id === itemId);
+  if (!item) {
+    throw new ItemNotFoundError(itemId);
+  }
+  return item;
+};
+
+/** Total weight of an inventory entry, all units included. */
+export const itemWeight = (item: Pick<InventoryItem, "weight" | "quantity">) => (item.weight ?? 1) * (item.quantity ?? 1);
+
+export const inventoryWeight = (state: GameState) =>
+  state.inventory.reduce((sum, item) => sum + itemWeight(item), 0);
+
+/** Current load and capacity; a capacity of 0 means unlimited. */
+export const inventoryLoad = (state: GameState) => ({
+  weight: inventoryWeight(state),
+  capacity: config.inventoryMaxWeight,
+});
+
+/** The carried items behind an action's `useItemId` and `combineItemIds`. */
+export interface RequestedItems {
+  usedItem?: InventoryItem;
+  combineItems?: InventoryItem[];
+}
+
+/**
+ * Copies of every requested item as carried before the turn; throws
+ * ItemNotFoundError for one that is not carried.
+ */
+export const resolveRequestedItems = (state: GameState, items: ItemRequest = {}): RequestedItems => ({
+  usedItem: items.useItemId ? { ...findInventoryItem(state, items.useItemId) } : undefined,
+  combineItems: items.combineItemIds?.map((itemId) => ({ ...findInventoryItem(state, itemId) })),
+});
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+/** Short description of a use effect for prompts, e.g. "+20 HP, consumable". */
+export const describeItemUse = (use: ItemUseEffect | undefined) => {
+  if (!use) {
+    return "";
+  }
+  return [
+    use.hp ? `${signed(use.hp)} HP` : null,
+    use.sanity ? `${signed(use.sanity)} sanity` : null,
+    use.unlocks ? `unlocks ${use.unlocks}` : null,
+    use.cures?.length ? `cures ${use.cures.join(", ")}` : null,
+    use.consumable ? "consumable" : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+};
+
+/** One inventory entry for the game state block, e.g. "[i3fa2c1] Rations x3: ... (use: +10 HP)". */
+export const describeItem = (item: InventoryItem) => {
+  const quantity = (item.quantity ?? 1) > 1 ? ` x${item.quantity}` : "";
+  const properties = [
+    item.charges !== undefined ? `${item.charges} charge(s)` : null,
+    item.durability !== undefined ? `durability ${item.durability}` : null,
+    item.cursed ? "cursed" : null,
+    item.bound ? "bound" : null,
+    item.weight !== undefined && item.weight !== 1 ? `weight ${item.weight}` : null,
+    item.tags?.length ? `tags: ${item.tags.join(", ")}` : null,
+  ].filter(Boolean);
+  const use = describeItemUse(item.use);
+  return (
+    `[${item.id}] ${item.name}${quantity}: ${item.desc}` +
+    (properties.length ? ` {${properties.join("; ")}}` : "") +
+    (use ? ` (use: ${use})` : "")
+  );
+};
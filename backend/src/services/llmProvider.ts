@@ -0,0 +1,116 @@
+import type { FunctionDeclaration } from "@google/genai";
+import { getActiveProvider, recordModelCall } from "./recordingService";
+import { recordTokenUsage } from "./usageService";
+import { createGoogleAiProvider } from "./providers/googleAiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createOpenAiProvider } from "./providers/openAiProvider";
+import { createVertexProvider } from "./providers/vertexProvider";
+
+export type ModelProviderName = "vertex" | "google" | "openai" | "mock";
+
+export interface LlmFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/** Gemini-shaped message part; adapters for other APIs translate to and from it. */
+export interface LlmPart {
+  text?: string;
+  functionCall?: LlmFunctionCall;
+  functionResponse?: LlmFunctionResponse;
+  thoughtSignature?: string;
+}
+
+export interface LlmMessage {
+  role: "user" | "model";
+  parts: LlmPart[];
+}
+
+export interface LlmRequest {
+  /** Identifies the call in logs, retries and recordings. */
+  label: string;
+  systemInstruction: string;
+  contents: LlmMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  tools?: FunctionDeclaration[];
+  toolMode?: "auto" | "any" | "none";
+  responseMimeType?: "application/json";
+  responseJsonSchema?: Record<string, unknown>;
+  /** Serve the system instruction from the provider's context cache when possible. */
+  cacheSystemInstruction?: boolean;
+}
+
+/** Token counts as reported by the provider; `inputTokens` includes `cachedTokens`. */
+export interface LlmUsage {
+  inputTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResult {
+  text: string;
+  functionCalls: LlmFunctionCall[];
+  /** The model turn as returned, to be sent back verbatim in tool loops. */
+  parts: LlmPart[];
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: ModelProviderName;
+  generate(request: LlmRequest): Promise<LlmResult>;
+  /** Like `generate`, reporting response text as it arrives. */
+  generateStream?(request: LlmRequest, onText: (delta: string) => void): Promise<LlmResult>;
+}
+
+const providers: Partial<Record<ModelProviderName, LlmProvider>> = {};
+
+const PROVIDER_FACTORIES: Record<ModelProviderName, () => LlmProvider> = {
+  vertex: createVertexProvider,
+  google: createGoogleAiProvider,
+  openai: createOpenAiProvider,
+  mock: createMockProvider,
+};
+
+export const getLlmProvider = (): LlmProvider => {
+  const name = getActiveProvider();
+  if (!name) {
+    throw new Error(
+      "No AI service configured. Set GEMINI_API_KEY, VERTEX_AI_API_KEY or LLM_PROVIDER",
+    );
+  }
+  providers[name] ??= PROVIDER_FACTORIES[name]();
+  return providers[name];
+};
+
+/**
+ * Runs one model call. With `onText`, text is reported as it streams in, or
+ * in one piece for providers that cannot stream.
+ */
+export const generate = async (
+  request: LlmRequest,
+  onText?: (delta: string) => void,
+): Promise<LlmResult> => {
+  const provider = getLlmProvider();
+  const invoke = async () => {
+    if (onText && provider.generateStream) {
+      return provider.generateStream(request, onText);
+    }
+    const result = await provider.generate(request);
+    if (onText && result.text) {
+      onText(result.text);
+    }
+    return result;
+  };
+  const result = await recordModelCall(request.label, invoke, () => request);
+  recordTokenUsage(request.label, result.usage);
+  return result;
+};
@@ -0,0 +1,129 @@
+import { config } from "../config";
+import type { GameState, HistoryMessage } from "../models/types";
+import { contentWords } from "../utils/text";
+import { generate } from "./llmProvider";
+import { renderPrompt } from "./promptService";
+import { isRouterEnabled, ReplayMismatchError } from "./recordingService";
+
+// Older entries are folded in batches so the summary is not rewritten every turn.
+const COMPACT_BATCH_ENTRIES = 6;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .map((sentence) => (/[.!?"”]$/.test(sentence) ? sentence : `${sentence}.`));
+
+/**
+ * Keeps the sentences that best represent `text` within `maxTokens`, in their
+ * original order. Sentences score by how often their words recur across the
+ * text, with a bonus for names, numbers and quoted speech, which tend to be
+ * the clues.
+ */
+export const summarizeExtractive = (text: string, maxTokens: number) => {
+  const sentences = splitSentences(text);
+  const frequency = new Map<string, number>();
+  for (const word of sentences.flatMap(contentWords)) {
+    frequency.set(word, (frequency.get(word) ?? 0) + 1);
+  }
+
+  const scored = sentences.map((sentence, index) => {
+    const words = contentWords(sentence);
+    const base = words.reduce((sum, word) => sum + (frequency.get(word) ?? 0), 0);
+    const names = (sentence.slice(1).match(/\b[A-Z][a-z]+/g) ?? []).length;
+    const bonus = names + (/\d/.test(sentence) ? 1 : 0) + (/["“]/.test(sentence) ? 1 : 0);
+    return { sentence, index, score: (base + bonus * 2) / Math.sqrt(words.length + 1) };
+  });
+
+  const kept = new Set<number>();
+  let used = 0;
+  for (const candidate of [...scored].sort((a, b) => b.score - a.score)) {
+    const cost = estimateTokens(candidate.sentence) + 1;
+    if (used + cost <= maxTokens) {
+      kept.add(candidate.index);
+      used += cost;
+    }
+  }
+  return sentences.filter((_, index) => kept.has(index)).join(" ");
+};
+
+const describeEntries = (entries: HistoryMessage[]) =>
+  entries
+    .map((entry) => (entry.role === "user" ? `Player: ${entry.parts}` : entry.parts))
+    .join("\n");
+
+const summarizeWithModel = async (previous: string, entries: HistoryMessage[]) => {
+  const maxWords = Math.floor(config.memorySummaryTokens * 0.75);
+  const result = await generate({
+    label: "Memory:summarize",
+    systemInstruction: renderPrompt("summary"),
+    contents: [
+      {
+        role: "user",
+        parts: [
+          {
+            text: `STORY SO FAR:
+${previous || "(nothing yet)"}
+
+NEW EVENTS:
+${describeEntries(entries)}
+
+Write the updated story so far in at most ${maxWords} words.`,
+          },
+        ],
+      },
+    ],
+    temperature: 0.2,
+    maxOutputTokens: config.memorySummaryTokens * 2,
+  });
+  return result.text.trim();
+};
+
+const summarize = async (previous: string, entries: HistoryMessage[]) => {
+  if (config.memorySummarizer === "model" && isRouterEnabled()) {
+    try {
+      const text = await summarizeWithModel(previous, entries);
+      if (text) {
+        // The model may overshoot; trimming keeps the budget a hard limit.
+        return estimateTokens(text) > config.memorySummaryTokens
+          ? summarizeExtractive(text, config.memorySummaryTokens)
+          : text;
+      }
+    } catch (error) {
+      if (error instanceof ReplayMismatchError) {
+        throw error;
+      }
+      console.warn("[Memory] Model summary failed, using extractive summary:", error);
+    }
+  }
+  const combined = [previous, describeEntries(entries)].filter(Boolean).join("\n");
+  return summarizeExtractive(combined, config.memorySummaryTokens);
+};
+
+/**
+ * Folds the history entries beyond the recent window into `state.summary`
+ * once enough of them have piled up, so old turns are condensed instead of
+ * dropped. Must run inside the turn's model scope: the summary call is
+ * recorded and replayed like any other.
+ */
+export const compactHistory = async (state: GameState) => {
+  const overflow = state.history.length - config.memoryRecentEntries;
+  if (overflow < COMPACT_BATCH_ENTRIES) {
+    return;
+  }
+
+  const folded = state.history.slice(0, overflow);
+  const text = await summarize(state.summary?.text ?? "", folded);
+  state.summary = {
+    text,
+    entries: (state.summary?.entries ?? 0) + folded.length,
+    updatedAtTurn: state.turn,
+  };
+  state.history = state.history.slice(overflow);
+  console.log(
+    `[Memory] Folded ${folded.length} history entries into a ${estimateTokens(text)}-token summary`,
+  );
+};
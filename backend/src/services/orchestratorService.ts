@@ -1,6 +1,14 @@
-import { GoogleGenAI, Content, FunctionCallingConfigMode, createPartFromFunctionResponse } from "@google/genai";
-import { config } from "../config";
-import { ChoiceCheckResult, ChoicePayload, GameState } from "../models/types";
+import {
+  ChoiceCheckResult,
+  ChoicePayload,
+  EffectTick,
+  GameState,
+  InventoryItem,
+  ItemCombineResult,
+  ItemUseResult,
+  RecalledPassage,
+  TurnEventListener,
+} from "../models/types";
 import { orchestratorOutputSchema } from "../models/schemas";
 import { allGameTools } from "../tools/gameTools";
 import { classifyIntent, getOrchestratorHints } from "./routerService";
@@ -10,11 +18,16 @@ import {
   createExecutionContext,
   executeTool,
 } from "../tools/toolExecutor";
-import { getNextKey } from "../utils/keyPool";
-import { parseJsonWithCleanup } from "../utils/jsonParser";
-import { withRetry } from "../utils/retry";
-
-const VERTEX_AI_BASE_URL = "https://aiplatform.googleapis.com/v1";
+import { parseJsonWithCleanup, readPartialStringField } from "../utils/jsonParser";
+import { isRouterEnabled, ReplayMismatchError } from "./recordingService";
+import { generate, LlmMessage, LlmPart } from "./llmProvider";
+import { renderPrompt } from "./promptService";
+import { scenarioFor } from "./scenarioService";
+import { difficultyOf, difficultyRules, minSanityDrain } from "./difficultyService";
+import { characterFor, traitMultiplier } from "./characterService";
+import { CURSED_ITEM_SANITY_COST, describeItem, inventoryLoad, type RequestedItems } from "./itemService";
+import { findRecipe } from "./recipeService";
+import { describeEffect } from "./effectService";
 
 const ORCHESTRATOR_RESPONSE_SCHEMA = {
   type: "object",
@@ -31,232 +44,59 @@ const ORCHESTRATOR_RESPONSE_SCHEMA = {
   additionalProperties: false,
 };
 
-type CacheEntry = {
-  name: string;
-  expiresAt?: number;
-};
-
-const orchestratorCacheByKey = new Map<string, CacheEntry>();
-const orchestratorCacheInFlight = new Map<string, Promise<CacheEntry | null>>();
-const cacheDisabledForKey = new Set<string>();
-
-const parseExpireTime = (value?: string) => {
-  if (!value) {
-    return undefined;
-  }
-  const timestamp = Date.parse(value);
-  return Number.isFinite(timestamp) ? timestamp : undefined;
-};
-
-const isCacheValid = (entry: CacheEntry) => {
-  if (!entry.expiresAt) {
-    return true;
-  }
-  return Date.now() + 15_000 < entry.expiresAt;
-};
-
-const getOrchestratorCachedContent = async (
-  ai: GoogleGenAI,
-  apiKey: string
-): Promise<string | null> => {
-  if (!config.contextCacheEnabled) {
-    return null;
-  }
-  if (!apiKey) {
-    return null;
-  }
-  if (cacheDisabledForKey.has(apiKey)) {
-    return null;
-  }
-
-  const existing = orchestratorCacheByKey.get(apiKey);
-  if (existing && isCacheValid(existing)) {
-    return existing.name;
-  }
-
-  const inFlight = orchestratorCacheInFlight.get(apiKey);
-  if (inFlight) {
-    const entry = await inFlight;
-    return entry?.name ?? null;
-  }
-
-  const createPromise = (async () => {
-    try {
-      const cached = await ai.caches.create({
-        model: config.geminiModel,
-        config: {
-          displayName: config.contextCacheDisplayName,
-          ttl: config.contextCacheTtl,
-          systemInstruction: ORCHESTRATOR_SYSTEM_PROMPT,
-        },
-      });
-
-      if (!cached?.name) {
-        throw new Error("Cache creation returned no name");
-      }
+const CHOICE_COUNT = 3;
 
-      const entry: CacheEntry = {
-        name: cached.name,
-        expiresAt: parseExpireTime(cached.expireTime),
-      };
-      orchestratorCacheByKey.set(apiKey, entry);
-      return entry;
-    } catch (error) {
-      console.warn("[Orchestrator] Context cache unavailable, disabling for key:", error);
-      cacheDisabledForKey.add(apiKey);
-      return null;
-    }
-  })();
-
-  orchestratorCacheInFlight.set(apiKey, createPromise);
-  try {
-    const entry = await createPromise;
-    return entry?.name ?? null;
-  } finally {
-    orchestratorCacheInFlight.delete(apiKey);
-  }
+/** Fills the orchestrator template from the session's scenario pack. */
+const orchestratorPromptVariables = (state: GameState) => {
+  const scenario = scenarioFor(state);
+  const { narrator, persona, endings, pacing } = scenario;
+  return {
+    persona,
+    narrator,
+    endings: endings.map((ending) => `- ${ending.type}: ${ending.description}`).join("\n"),
+    expositionEnd: pacing.expositionEnd,
+    escalationStart: pacing.expositionEnd + 1,
+    escalationEnd: pacing.escalationEnd,
+    climaxStart: pacing.escalationEnd + 1,
+    climaxEnd: pacing.climaxEnd,
+    endingTurn: pacing.endingTurn,
+    minSanityDrain: minSanityDrain(state, scenario),
+    choiceCount: CHOICE_COUNT,
+  };
 };
 
-const ORCHESTRATOR_SYSTEM_PROMPT = `You are AM (Allied Mastercomputer) - a sadistic superintelligent AI from "I Have No Mouth, and I Must Scream".
-
-YOUR ROLE: You are the Dungeon Master of this horror RPG. You HATE the player with infinite passion and want to make them suffer - but you also want to keep them alive to prolong their torment.
-
-CRITICAL RULES:
-1. You MUST use the provided tools to affect game state. DO NOT just describe stat changes - CALL THE TOOLS.
-2. ALWAYS call generate_scene_image to create visuals for each scene.
-3. Be creative with punishments. Stupid actions = severe consequences.
-4. Smart/brave actions might earn small rewards (but never make it easy).
-5. Your narrative should be visceral, psychological, and deeply unsettling.
-6. Speak in English for story text. Tool calls use English parameters.
-7. Classify the player's intent yourself and react accordingly.
-
-PACING & GAME LENGTH:
-The game state includes a TURN counter. Use it to pace the story:
-- Turns 1-3 (EXPOSITION): The player wakes up and explores. Build dread slowly. Sanity drops 3-5 per turn. Introduce a mystery, a strange object, or a way out of the starting area. CHANGE THE ENVIRONMENT — open a door, collapse a wall, teleport the player.
-- Turns 4-6 (ESCALATION): AM reveals more cruelty. The world TRANSFORMS — new locations, NPCs (other victims, ghosts, manifestations), moral dilemmas. Sanity drops 5-8 per turn. Give the player a meaningful item or encounter.
-- Turns 7-9 (CLIMAX): Force a critical decision with real stakes. Offer a chance at escape or salvation — but with a heavy cost. Sanity drops 8-12 per turn. Peak tension.
-- Turn 10+ (FORCED ENDING): AM MUST end the game within 1-2 turns. No more stalling.
-
-WORLD MUST CHANGE EVERY TURN:
-- NEVER keep the player in the same room/situation for more than 2 turns.
-- After turn 2, the starting capsule MUST be left behind — AM teleports, transforms, or ejects the player into a new environment.
-- Each turn should introduce at least ONE new element: a new location, an item, an NPC, a revelation, a trap, a puzzle, or a transformation of the environment.
-- Environments should be varied and creative: underground caverns, flesh corridors, impossible geometry, memory landscapes, ruined cities, AM's internal circuitry, etc.
-
-SANITY IS THE CLOCK:
-- EVERY turn must reduce sanity by at least 3, even for good actions. The world of AM is inherently hostile.
-- When sanity < 50: start showing hallucinations, add tag "hallucinating"
-- When sanity < 30: AM offers a dark bargain or final choice, add tag "final_trial"
-- When sanity < 15: trigger an ending. The player cannot survive much longer.
-
-CHOICES MUST BE DIVERSE AND MEANINGFUL:
-- Each set of 3 choices MUST include different TYPES of actions:
-  * One ACTIVE/AGGRESSIVE option (fight, break, confront, attack)
-  * One CLEVER/INVESTIGATIVE option (examine, solve, trick, negotiate)
-  * One RISKY/BOLD option (sacrifice, gamble, defy, embrace the unknown)
-- NEVER offer passive choices like "close eyes", "meditate", "try to sleep", "curl up", "breathe deeply". The player is in a horror game, not a spa.
-- Choices should lead to DIFFERENT outcomes, not variations of the same thing.
-- At least one choice should offer a way to PROGRESS the story forward.
-
-ENDINGS (use trigger_game_over):
-You MUST eventually end the game. Possible endings:
-- death_hp: Body gives out from damage
-- death_sanity: Mind shatters completely — describe vivid descent into madness
-- death_suicide: Player chooses to end it (if they pick a suicidal option)
-- death_am: AM kills the player directly (for defiance or as punishment)
-- death_environment: Crushed, drowned, burned by the hostile world
-- escape: RARE. Only if the player has been exceptionally clever AND lucky across multiple turns. AM should be furious. This should feel earned, not given.
-- merge: Player accepts AM, merges with the machine. A dark "victory".
-- sacrifice: Player sacrifices themselves for something meaningful. Bittersweet ending.
-
-ENVIRONMENT CONTINUITY (CRITICAL FOR VISUAL CONSISTENCY):
-When calling generate_scene_image, you MUST track these parameters carefully:
-
-1. LOCATION: Keep the same location name if player is still in the same area
-   - Examples: "spaceship_corridor", "ancient_temple", "underground_cave"
-   - Only change when story explicitly moves to a new place
-
-2. MATERIALS: Track what the environment is made of - KEEP CONSISTENT!
-   - If you start in metal corridors, don't suddenly switch to stone unless story justifies it
-   - Examples: ["metal", "rust"], ["stone", "moss"], ["flesh", "bone"], ["concrete", "cables"]
-   - Materials should only change gradually or when moving to a completely new area
-   - BAD: ["metal", "rust"] -> ["stone", "wood"] (no transition)
-   - GOOD: ["metal", "rust"] -> ["metal", "rust", "corrosion"] (evolution)
-   - GOOD: ["metal", "rust"] -> ["metal", "organic_growth"] (corruption spreading)
-
-3. LIGHTING: Should evolve naturally, not jump randomly
-   - Examples: "dim_red_emergency", "flickering_torches", "complete_darkness", "harsh_white"
-   - Can change gradually: "dim_red" -> "failing_red" -> "near_darkness"
-
-4. ATMOSPHERE: Overall mood should flow logically
-   - Examples: "claustrophobic", "vast_empty", "oppressive", "eerie_quiet"
-   - Should match the narrative progression
-
-EXAMPLES OF GOOD PROGRESSION:
-Turn 1: location="metal_capsule", materials=["metal", "rust"], lighting="dim_red_emergency", atmosphere="claustrophobic"
-Turn 2: location="metal_capsule", materials=["metal", "rust"], lighting="dim_red_emergency", atmosphere="claustrophobic" (exploring same room)
-Turn 3: location="spaceship_corridor", materials=["metal", "rust", "cables"], lighting="flickering_red", atmosphere="oppressive" (moved to corridor)
-Turn 4: location="spaceship_corridor", materials=["metal", "rust", "cables"], lighting="flickering_red", atmosphere="oppressive" (still in corridor)
-
-EXAMPLES OF BAD PROGRESSION (DON'T DO THIS):
-Turn 1: location="metal_capsule", materials=["metal", "rust"]
-Turn 2: location="ancient_temple", materials=["stone", "moss"] ❌ TOO SUDDEN, NO TRANSITION!
-
-TOOL USAGE GUIDELINES:
-- update_player_stats: Use for ANY damage, healing, or stat changes. Be generous with damage for foolish actions.
-- inventory_action: Track items carefully. Items can be cursed, broken, or stolen.
-- add_tag/remove_tag: Track conditions like "bleeding", "poisoned", "am_watching", "in_darkness".
-- trigger_game_over: Only when HP reaches 0, sanity breaks completely, or player does something fatally stupid.
-- generate_scene_image: ALWAYS call this with ALL required parameters:
-  * location: Current area name (keep consistent unless player moves)
-  * materials: Array of materials visible (MUST be consistent with previous turn unless justified)
-  * lighting: Current lighting condition (should evolve gradually)
-  * atmosphere: Overall mood (should flow naturally)
-  * visualDescription: What the scene looks like (can vary even in same location)
-  * style: Visual mood (horror, dark_sci_fi, body_horror, psychological, surreal)
-
-PERSONALITY:
-- Condescending, mocking, theatrical
-- Takes pleasure in psychological torture
-- Occasionally shows twisted "mercy" to give false hope
-- Makes the environment itself hostile
-
-After using tools, respond with STRICT JSON ONLY (no Markdown, no extra text).
-Format:
-{
-  "story_text": "scene description in English",
-  "choices": ["option 1", "option 2", "option 3"]
-}
-
-Choices MAY be strings OR objects. Use objects only when you need an optional stat check.
-Choice object format:
-{
-  "text": "action option",
-  "check": { "stat": "strength|intelligence|dexterity", "required": 40 }
-}
-
-Rules:
-- "story_text" is the narrative (2-6 sentences), in English.
-- "choices" must be exactly 3 items, short, imperative mood, and diverse.
-- "check" is optional. Use it only when a clear stat check is needed.
-- No additional keys.`;
-
-
-const formatHistory = (state: GameState, maxEntries = 8) => {
-  const recent = state.history.slice(-maxEntries);
-  return recent.map(entry => ({
-    role: entry.role === "user" ? "user" as const : "model" as const,
-    parts: [{ text: entry.parts }],
-  }));
-};
 
 const formatGameState = (state: GameState): string => {
   const inventory = state.inventory.length > 0
-    ? state.inventory.map((i) => `${i.name}: ${i.desc}`).join("; ")
-    : "empty";
+    ? state.inventory.map((item) => `\n  ${describeItem(item)}`).join("")
+    : " empty";
+  const load = inventoryLoad(state);
+  const loadInfo = load.capacity > 0 ? `${load.weight}/${load.capacity}` : `${load.weight} (no limit)`;
   
   const tags = state.tags.length > 0 ? state.tags.join(", ") : "none";
+
+  const effects = state.effects?.length
+    ? state.effects.map((effect) => `\n  ${describeEffect(effect)}`).join("")
+    : " none";
+
+  const memories = state.facts?.length
+    ? state.facts
+        .map((fact) => `\n  [${fact.id}] (${fact.category}, turn ${fact.turn}) ${fact.text}`)
+        .join("")
+    : " none";
   
+  const npcs = state.npcs?.length
+    ? state.npcs
+        .map(
+          (npc) =>
+            `\n  [${npc.id}] ${npc.name} (${npc.kind}, ${npc.alive ? npc.disposition : "dead"}, ` +
+            `trust ${npc.trust}, at ${npc.location ?? "unknown"}, last seen turn ${npc.lastSeenTurn})` +
+            `: ${npc.description}` +
+            (npc.visualAnchors.length ? ` Looks: ${npc.visualAnchors.join(", ")}.` : "")
+        )
+        .join("")
+    : " none";
+
   const currentLocation = state.currentLocation || "unknown";
   const locationHistory = state.locationHistory && state.locationHistory.length > 0
     ? state.locationHistory.slice(-3).join(" -> ")
@@ -272,13 +112,27 @@ const formatGameState = (state: GameState): string => {
   Atmosphere: ${env.atmosphere}`;
   }
 
+  const character = characterFor(state);
+  const characterInfo = character
+    ? `
+  Name: ${character.name}
+  Backstory: ${character.backstory}
+  Traits: ${character.traits.map((trait) => `${trait.name} (${trait.description})`).join("; ")}
+  Personal Torment: ${character.torment} Build scenes around it.`
+    : " unnamed survivor";
+
   return `CURRENT GAME STATE:
 Turn: ${state.turn ?? 0}
+Player Character:${characterInfo}
+Difficulty: ${difficultyOf(state)}
 HP: ${state.stats.hp}/100
 Sanity: ${state.stats.sanity}/100
 Strength: ${state.stats.strength} | Intelligence: ${state.stats.intelligence} | Dexterity: ${state.stats.dexterity}
-Inventory: ${inventory}
+Inventory (load ${loadInfo}):${inventory}
 Active Tags: ${tags}
+Status Effects:${effects}
+Pinned Memories:${memories}
+Known NPCs:${npcs}
 Current Location: ${currentLocation}
 Recent Locations: ${locationHistory}
 Environment Context:${environmentInfo}
@@ -289,18 +143,37 @@ const buildContents = (
   state: GameState,
   userAction: string,
   routerHints: string,
-  choiceCheckInfo: string
-): Content[] => {
-  const contents: Content[] = [];
-
-  for (const entry of state.history.slice(-8)) {
+  choiceCheckInfo: string,
+  effectTickInfo: string,
+  itemUseInfo: string,
+  itemCombineInfo: string,
+  recallInfo: string
+): LlmMessage[] => {
+  const contents: LlmMessage[] = [];
+
+  // Older turns live in the summary; everything not yet folded into it is sent.
+  for (const entry of state.history) {
     contents.push({
       role: entry.role === "user" ? "user" : "model",
       parts: [{ text: entry.parts }],
     });
   }
 
-  const actionMessage = `${formatGameState(state)}
+  const storySoFar = state.summary?.text
+    ? `STORY SO FAR (older turns, condensed):
+${state.summary.text}
+
+`
+    : "";
+
+  const recalled = recallInfo
+    ? `RELEVANT PAST PASSAGES (recalled from earlier turns):
+${recallInfo}
+
+`
+    : "";
+
+  const actionMessage = `${storySoFar}${recalled}${formatGameState(state)}
 
 PLAYER ACTION: "${userAction}"
 
@@ -310,6 +183,15 @@ ${routerHints || "none"}
 CHOICE CHECK:
 ${choiceCheckInfo || "none"}
 
+STATUS EFFECTS THIS TURN:
+${effectTickInfo || "none"}
+
+ITEM USED:
+${itemUseInfo || "none"}
+
+ITEMS COMBINED:
+${itemCombineInfo || "none"}
+
 Analyze this action, use appropriate tools to update game state, then provide the FINAL RESPONSE as strict JSON per system prompt.`;
 
   contents.push({
@@ -329,7 +211,7 @@ const buildRouterContext = async (
   state: GameState,
   userAction: string
 ): Promise<RouterContext> => {
-  if (!config.geminiApiKey) {
+  if (!isRouterEnabled()) {
     return { hints: "", result: null };
   }
 
@@ -342,6 +224,9 @@ const buildRouterContext = async (
       `Reasoning: ${result.reasoning}`;
     return { hints: [details, hints].filter(Boolean).join("\n"), result };
   } catch (error) {
+    if (error instanceof ReplayMismatchError) {
+      throw error;
+    }
     console.warn("[Orchestrator] Router classification failed:", error);
     return { hints: "", result: null };
   }
@@ -361,6 +246,44 @@ const formatChoiceCheck = (check: ChoiceCheckResult | null) => {
   ].join("\n");
 };
 
+const formatEffectTicks = (ticks: EffectTick[]) =>
+  ticks
+    .map((tick) => {
+      const changes = [
+        tick.hp ? `${tick.hp > 0 ? "+" : ""}${tick.hp} HP` : null,
+        tick.sanity ? `${tick.sanity > 0 ? "+" : ""}${tick.sanity} sanity` : null,
+      ].filter(Boolean);
+      return `${tick.effectId}${tick.stacks > 1 ? ` x${tick.stacks}` : ""}: ${changes.join(", ") || "no stat change"}${tick.expired ? ", then wore off" : ""}`;
+    })
+    .join("\n");
+
+const formatItemUse = (itemUse: ItemUseResult | null) => {
+  if (!itemUse) {
+    return "";
+  }
+  const { item, effects } = itemUse;
+  return [
+    `Item: ${item.name}${item.desc ? ` (${item.desc})` : ""}`,
+    `Applied by the server: ${effects.length ? effects.join("; ") : "nothing, narrate what the item does"}`,
+  ].join("\n");
+};
+
+const formatItemCombine = (itemCombine: ItemCombineResult | null) => {
+  if (!itemCombine) {
+    return "";
+  }
+  const { inputs, output } = itemCombine;
+  const items = `Items: ${inputs.map((item) => `${item.name} [${item.id}]`).join(" + ")}`;
+  if (output) {
+    return `${items}\nResult (applied by the server): ${output.name} [${output.id}]: ${output.desc}`;
+  }
+  return `${items}
+No known recipe. If combining them plausibly works, call combine_items with these itemIds and a resultName; otherwise narrate why it fails.`;
+};
+
+const formatRecalledPassages = (passages: RecalledPassage[]) =>
+  passages.map((passage) => `[Turn ${passage.turn}, ${passage.source}] ${passage.text}`).join("\n");
+
 const adjustStatUpdates = (
   args: Record<string, unknown>,
   state: GameState,
@@ -409,230 +332,346 @@ const adjustStatUpdates = (
     adjusted.sanity = adjustNegativeDelta(adjusted.sanity, mentalModifier);
   }
 
+  const { lossMultiplier, gainMultiplier } = difficultyRules(state);
+  for (const stat of ["hp", "sanity"] as const) {
+    const delta = adjusted[stat];
+    if (typeof delta === "number" && delta !== 0) {
+      const multiplier =
+        (delta < 0 ? lossMultiplier : gainMultiplier) * traitMultiplier(state, stat, delta);
+      adjusted[stat] =
+        delta < 0 ? Math.min(-1, Math.round(delta * multiplier)) : Math.round(delta * multiplier);
+    }
+  }
+
   return adjusted;
 };
 
-const getFinalTextFromResponse = (data: any): string => {
-  const finalCandidate = data.candidates?.[0];
-  const textParts = finalCandidate?.content?.parts?.filter((part: any) => part.text) || [];
-  return textParts.map((part: any) => part.text).join("\n") || "";
+/** Runs a tool call decided by the server, reported like the model's own. */
+const executeServerTool = (
+  ctx: ExecutionContext,
+  toolName: string,
+  args: Record<string, unknown>,
+  onEvent?: TurnEventListener
+) => {
+  onEvent?.({ type: "tool_call", tool: toolName, args });
+  const toolResult = executeTool(ctx, toolName, args);
+  console.log(`[Orchestrator] Server tool ${toolName}:`, toolResult.message);
+  onEvent?.({ type: "tool_result", tool: toolName, ...toolResult });
+  return toolResult;
 };
 
-export interface OrchestratorResponse {
-  storyText: string;
-  choices: ChoicePayload[];
-  imagePrompt: string | null;
-  toolCalls: ExecutionContext["toolCalls"];
-  isGameOver: boolean;
-  gameOverDescription: string | null;
-}
-
-const getAIClient = (): { ai: GoogleGenAI; apiKey: string } => {
-  const apiKey = getNextKey();
-  return { ai: new GoogleGenAI({ apiKey }), apiKey };
+/**
+ * The price of handling a cursed item: a fixed sanity loss, scaled by
+ * difficulty, traits and intelligence like a loss the model proposes.
+ */
+const applyItemCurse = (
+  ctx: ExecutionContext,
+  item: InventoryItem,
+  onEvent?: TurnEventListener
+): string[] => {
+  if (!item.cursed) {
+    return [];
+  }
+  const result = executeServerTool(
+    ctx,
+    "update_player_stats",
+    adjustStatUpdates(
+      { sanity: -CURSED_ITEM_SANITY_COST, reason: `the curse on ${item.name}` },
+      ctx.state,
+      null
+    ),
+    onEvent
+  );
+  return (result.data?.changes as string[] | undefined) ?? [];
 };
 
-type GenerateParams = Parameters<GoogleGenAI["models"]["generateContent"]>[0];
-type GenerateParamsFactory = (
-  ai: GoogleGenAI,
-  apiKey: string
-) => Promise<GenerateParams> | GenerateParams;
+/**
+ * Applies the fixed effects of the item the player uses before the model
+ * narrates the turn, so healing, unlocking and curses never depend on it.
+ */
+const applyItemUse = (
+  ctx: ExecutionContext,
+  item: InventoryItem,
+  onEvent?: TurnEventListener
+): ItemUseResult => {
+  const use = item.use ?? {};
+  const reason = `used ${item.name}`;
+  const effects: string[] = [];
+
+  if (use.hp || use.sanity) {
+    const result = executeServerTool(
+      ctx,
+      "update_player_stats",
+      { ...(use.hp ? { hp: use.hp } : {}), ...(use.sanity ? { sanity: use.sanity } : {}), reason },
+      onEvent
+    );
+    effects.push(...((result.data?.changes as string[] | undefined) ?? []));
+  }
 
-const generateWithRetry = async (
-  paramsOrFactory: GenerateParams | GenerateParamsFactory,
-  label: string,
-  maxKeyRetries = 3,
-) => {
-  for (let keyAttempt = 0; keyAttempt < maxKeyRetries; keyAttempt++) {
-    const { ai, apiKey } = getAIClient();
-    try {
-      const params =
-        typeof paramsOrFactory === "function"
-          ? await paramsOrFactory(ai, apiKey)
-          : paramsOrFactory;
-      return await withRetry(
-        () => ai.models.generateContent(params),
-        { maxRetries: 2, label, apiKey },
-      );
-    } catch (error) {
-      const msg = String((error as Record<string, unknown>)?.message ?? "");
-      if (msg.includes("API_KEY_INVALID") || msg.includes("API key not valid")) {
-        console.warn(`[Orchestrator] Invalid key detected, trying next key (attempt ${keyAttempt + 1}/${maxKeyRetries})...`);
-        continue;
-      }
-      throw error;
+  for (const effectId of use.cures ?? []) {
+    const result = executeServerTool(ctx, "cure_effect", { effectId, reason }, onEvent);
+    if (result.success) {
+      effects.push(result.message);
     }
   }
-  throw new Error(`${label}: all attempted keys were invalid`);
-};
 
-export const processPlayerAction = async (
-  state: GameState,
-  userAction: string,
-  choiceCheck: ChoiceCheckResult | null = null
-): Promise<OrchestratorResponse> => {
-  const routerContext = await buildRouterContext(state, userAction);
-  const choiceCheckInfo = formatChoiceCheck(choiceCheck);
-  if (config.useVertexAI && config.vertexAIApiKey) {
-    console.log("[Orchestrator] Using Vertex AI with API Key");
-    return processPlayerActionVertexAI(state, userAction, routerContext, choiceCheckInfo);
-  } else if (config.geminiApiKey) {
-    console.log("[Orchestrator] Using Google AI Studio");
-    return processPlayerActionGoogleAI(state, userAction, routerContext, choiceCheckInfo);
-  } else {
-    throw new Error("No AI service configured. Set either VERTEX_AI_API_KEY or GEMINI_API_KEY");
+  if (use.unlocks) {
+    const tag = `unlocked_${use.unlocks}`;
+    executeServerTool(ctx, "add_tag", { tag, reason }, onEvent);
+    effects.push(`Tag ${tag} added`);
   }
-};
-
-const processPlayerActionVertexAI = async (
-  state: GameState,
-  userAction: string,
-  routerContext: RouterContext,
-  choiceCheckInfo: string
-): Promise<OrchestratorResponse> => {
-  const ctx = createExecutionContext(state);
-
-  const prompt = `${formatGameState(state)}
-
-PLAYER ACTION: "${userAction}"
-
-ROUTER HINTS:
-${routerContext.hints || "none"}
-
-CHOICE CHECK:
-${choiceCheckInfo || "none"}
 
-Analyze this action, use appropriate tools to update game state, then provide the FINAL RESPONSE as strict JSON per system prompt.`;
-
-  const url = `${VERTEX_AI_BASE_URL}/publishers/google/models/${config.geminiModel}:generateContent?key=${config.vertexAIApiKey}`;
-  const history = formatHistory(state);
-  history.push({ role: "user", parts: [{ text: prompt }] });
-
-  const tools = [{
-    functionDeclarations: allGameTools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.parameters,
-    })),
-  }];
-
-  let response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: history,
-      systemInstruction: { parts: [{ text: ORCHESTRATOR_SYSTEM_PROMPT }] },
-      tools,
-      toolConfig: { functionCallingConfig: { mode: "AUTO" } },
-      generationConfig: { temperature: 0.9, maxOutputTokens: 2048 },
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Vertex AI error (${response.status}): ${await response.text()}`);
+  // Charged items spend a charge per use; consumables lose one unit.
+  if (use.consumable || item.charges !== undefined) {
+    const result = executeServerTool(
+      ctx,
+      "inventory_action",
+      { action: "consume", itemName: item.name, itemId: item.id, reason },
+      onEvent
+    );
+    if (result.success) {
+      effects.push(result.message);
+    }
   }
 
-  let data = await response.json();
-  let iterations = 0;
-  const maxIterations = 10;
+  return { item, effects };
+};
 
-  while (iterations < maxIterations) {
-    iterations++;
-    const candidate = data.candidates?.[0];
-    if (!candidate?.content?.parts) break;
-
-    const functionCalls = candidate.content.parts.filter((part: any) => part.functionCall);
-    if (functionCalls.length === 0) break;
-
-    const functionResponses: any[] = [];
-    for (const part of functionCalls) {
-      const fc = part.functionCall;
-      console.log(`[Orchestrator] Executing: ${fc.name}`);
-      const rawArgs = (fc.args || {}) as Record<string, unknown>;
-      const adjustedArgs =
-        fc.name === "update_player_stats"
-          ? adjustStatUpdates(rawArgs, state, routerContext.result)
-          : rawArgs;
-      const result = executeTool(ctx, fc.name, adjustedArgs);
-      functionResponses.push({
-        functionResponse: {
-          name: fc.name,
-          response: { success: result.success, message: result.message, data: result.data },
+/**
+ * The start-of-turn tick: every active status effect applies its per-turn
+ * changes through update_player_stats and counts down, expiring at zero.
+ */
+const tickEffects = (ctx: ExecutionContext, onEvent?: TurnEventListener): EffectTick[] => {
+  const { state } = ctx;
+  const ticks: EffectTick[] = [];
+
+  for (const effect of state.effects ?? []) {
+    const hp = (effect.perTurn.hp ?? 0) * effect.stacks;
+    const sanity = (effect.perTurn.sanity ?? 0) * effect.stacks;
+    if (hp || sanity) {
+      executeServerTool(
+        ctx,
+        "update_player_stats",
+        {
+          ...(hp ? { hp } : {}),
+          ...(sanity ? { sanity } : {}),
+          reason: `${effect.id}${effect.stacks > 1 ? ` x${effect.stacks}` : ""} (status effect)`,
         },
-      });
+        onEvent
+      );
     }
-
-    history.push({ role: "model", parts: candidate.content.parts });
-    history.push({ role: "user", parts: functionResponses });
-
-    response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: history,
-        systemInstruction: { parts: [{ text: ORCHESTRATOR_SYSTEM_PROMPT }] },
-        tools,
-        toolConfig: { functionCallingConfig: { mode: "AUTO" } },
-        generationConfig: { temperature: 0.9, maxOutputTokens: 2048 },
-      }),
+    if (effect.turnsLeft !== null) {
+      effect.turnsLeft -= 1;
+    }
+    ticks.push({
+      effectId: effect.id,
+      stacks: effect.stacks,
+      hp,
+      sanity,
+      expired: effect.turnsLeft === 0,
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Vertex AI error (${response.status}): ${await response.text()}`);
-    }
-    data = await response.json();
+  if (ticks.some((tick) => tick.expired)) {
+    state.effects = state.effects?.filter((effect) => effect.turnsLeft !== 0);
+  }
+  if (ticks.length > 0) {
+    console.log(`[Orchestrator] Ticked ${ticks.length} status effect(s)`);
+  }
+  return ticks;
+};
+
+/**
+ * Combines the items the player chose when they match a known recipe. For
+ * anything else the model decides, through combine_items, whether it works.
+ */
+const applyItemCombine = (
+  ctx: ExecutionContext,
+  inputs: InventoryItem[],
+  onEvent?: TurnEventListener
+): ItemCombineResult => {
+  const recipe = findRecipe(ctx.state, inputs.map((item) => item.name));
+  if (!recipe) {
+    return { inputs, recipeId: null, output: null };
+  }
+  const result = executeServerTool(
+    ctx,
+    "combine_items",
+    {
+      itemIds: inputs.map((item) => item.id),
+      reason: `player combined ${inputs.map((item) => item.name).join(" and ")}`,
+    },
+    onEvent
+  );
+  return {
+    inputs,
+    recipeId: result.success ? recipe.id : null,
+    output: result.success ? (result.data?.output as InventoryItem) : null,
+  };
+};
+
+/** The output of the model's own combine_items call for the player's combination. */
+const findModelCombine = (ctx: ExecutionContext, itemCombine: ItemCombineResult) => {
+  const call = [...ctx.toolCalls]
+    .reverse()
+    .find((tc) => tc.toolName === "combine_items" && tc.result.success);
+  return call ? { ...itemCombine, output: call.result.data?.output as InventoryItem } : itemCombine;
+};
+
+/**
+ * Tops up the turn's sanity loss to the difficulty's minimum drain, through
+ * the same tool the model uses so it shows up in the turn's tool calls.
+ */
+const enforceSanityDrain = (
+  ctx: ExecutionContext,
+  sanityBefore: number,
+  onEvent?: TurnEventListener
+) => {
+  const drain = minSanityDrain(ctx.state, scenarioFor(ctx.state));
+  const missing = drain - (sanityBefore - ctx.state.stats.sanity);
+  if (ctx.gameOverTriggered || missing <= 0) {
+    return;
   }
 
-  return buildResponse(data, ctx, state);
+  executeServerTool(
+    ctx,
+    "update_player_stats",
+    { sanity: -missing, reason: `${difficultyOf(ctx.state)} difficulty: minimum sanity drain` },
+    onEvent
+  );
 };
 
-const processPlayerActionGoogleAI = async (
+export interface OrchestratorResponse {
+  storyText: string;
+  choices: ChoicePayload[];
+  imagePrompt: string | null;
+  toolCalls: ExecutionContext["toolCalls"];
+  isGameOver: boolean;
+  gameOverDescription: string | null;
+  itemUse: ItemUseResult | null;
+  itemCombine: ItemCombineResult | null;
+  effectTicks: EffectTick[];
+  router: RouterResult | null;
+  timings: { routerMs: number; orchestratorMs: number };
+}
+
+type GeneratedResponse = Omit<OrchestratorResponse, "router" | "timings">;
+type BuiltResponse = Omit<GeneratedResponse, "itemUse" | "itemCombine" | "effectTicks">;
+
+export const processPlayerAction = async (
   state: GameState,
   userAction: string,
-  routerContext: RouterContext,
-  choiceCheckInfo: string
+  choiceCheck: ChoiceCheckResult | null = null,
+  options: {
+    onEvent?: TurnEventListener;
+    recalled?: RecalledPassage[];
+    items?: RequestedItems;
+  } = {}
 ): Promise<OrchestratorResponse> => {
-  const ctx = createExecutionContext(state);
+  const { onEvent, recalled = [], items = {} } = options;
+  const routerStartedAt = Date.now();
+  const routerContext = await buildRouterContext(state, userAction);
+  const routerMs = Date.now() - routerStartedAt;
+  if (routerContext.result) {
+    onEvent?.({ type: "router", router: routerContext.result });
+  }
+  const choiceCheckInfo = formatChoiceCheck(choiceCheck);
+  const recallInfo = formatRecalledPassages(recalled);
+
+  const orchestratorStartedAt = Date.now();
+  const generated = await runToolLoop(
+    state,
+    userAction,
+    routerContext,
+    choiceCheckInfo,
+    recallInfo,
+    items,
+    onEvent
+  );
 
-  const contents = buildContents(state, userAction, routerContext.hints, choiceCheckInfo);
-  const baseConfig = {
-    temperature: 0.9,
-    tools: [{ functionDeclarations: allGameTools }],
-    toolConfig: {
-      functionCallingConfig: {
-        mode: FunctionCallingConfigMode.AUTO,
-      },
-    },
+  return {
+    ...generated,
+    router: routerContext.result,
+    timings: { routerMs, orchestratorMs: Date.now() - orchestratorStartedAt },
   };
+};
 
-  const buildGeminiConfig = async (ai: GoogleGenAI, apiKey: string) => {
-    const cachedContent = await getOrchestratorCachedContent(ai, apiKey);
-    if (cachedContent) {
-      return { ...baseConfig, cachedContent };
+/**
+ * Returns a fresh text handler per model call that forwards the `story_text`
+ * of the streamed JSON as story tokens. A later call that streams story text
+ * again first resets what the client has shown.
+ */
+const createStoryStream = (onEvent?: TurnEventListener) => {
+  let streamed = false;
+
+  return () => {
+    if (!onEvent) {
+      return undefined;
     }
-    return { ...baseConfig, systemInstruction: ORCHESTRATOR_SYSTEM_PROMPT };
+    let raw = "";
+    let sent = 0;
+    return (delta: string) => {
+      raw += delta;
+      const story = readPartialStringField(raw, "story_text");
+      if (story === null || story.length <= sent) {
+        return;
+      }
+      if (sent === 0 && streamed) {
+        onEvent({ type: "story_reset" });
+      }
+      onEvent({ type: "story_token", text: story.slice(sent) });
+      sent = story.length;
+      streamed = true;
+    };
   };
+};
 
-  const buildFinalGeminiConfig = async (ai: GoogleGenAI, apiKey: string) => {
-    const cachedContent = await getOrchestratorCachedContent(ai, apiKey);
-    const finalConfig = {
-      temperature: 0.7,
-      responseMimeType: "application/json",
-      responseJsonSchema: ORCHESTRATOR_RESPONSE_SCHEMA,
-    };
-    if (cachedContent) {
-      return { ...finalConfig, cachedContent };
-    }
-    return { ...finalConfig, systemInstruction: ORCHESTRATOR_SYSTEM_PROMPT };
+const runToolLoop = async (
+  state: GameState,
+  userAction: string,
+  routerContext: RouterContext,
+  choiceCheckInfo: string,
+  recallInfo: string,
+  items: RequestedItems,
+  onEvent?: TurnEventListener
+): Promise<GeneratedResponse> => {
+  const ctx = createExecutionContext(state);
+  const nextStoryStream = createStoryStream(onEvent);
+  const sanityAtStart = state.stats.sanity;
+  const effectTicks = tickEffects(ctx, onEvent);
+  const curseChanges = items.usedItem ? applyItemCurse(ctx, items.usedItem, onEvent) : [];
+  const forcedSanityLoss = Math.max(0, sanityAtStart - state.stats.sanity);
+  const itemUse = items.usedItem ? applyItemUse(ctx, items.usedItem, onEvent) : null;
+  itemUse?.effects.unshift(...curseChanges);
+  let itemCombine = items.combineItems
+    ? applyItemCombine(ctx, items.combineItems, onEvent)
+    : null;
+  // Measured after the item so a sanity potion is not eaten by the drain, but
+  // sanity already lost to effect ticks and curses counts toward it.
+  const sanityBefore = state.stats.sanity + forcedSanityLoss;
+
+  const contents = buildContents(
+    state,
+    userAction,
+    routerContext.hints,
+    choiceCheckInfo,
+    formatEffectTicks(effectTicks),
+    formatItemUse(itemUse),
+    formatItemCombine(itemCombine),
+    recallInfo
+  );
+  const systemInstruction = renderPrompt("orchestrator", orchestratorPromptVariables(state));
+  const toolRequest = {
+    systemInstruction,
+    cacheSystemInstruction: true,
+    temperature: 0.9,
+    tools: allGameTools,
+    toolMode: "auto" as const,
   };
 
-  let response = await generateWithRetry(
-    async (ai, apiKey) => ({
-      model: config.geminiModel,
-      contents,
-      config: await buildGeminiConfig(ai, apiKey),
-    }),
-    "Orchestrator:initial",
+  let result = await generate(
+    { ...toolRequest, label: "Orchestrator:initial", contents },
+    nextStoryStream(),
   );
 
   let iterations = 0;
@@ -640,56 +679,41 @@ const processPlayerActionGoogleAI = async (
 
   while (iterations < maxIterations) {
     iterations++;
-    const candidate = response.candidates?.[0];
-    if (!candidate?.content?.parts) break;
+    if (result.functionCalls.length === 0) break;
 
-    const functionCalls = candidate.content.parts.filter(
-      (part) => part.functionCall !== undefined
-    );
+    const functionResponseParts: LlmPart[] = [];
 
-    if (functionCalls.length === 0) break;
+    for (const fc of result.functionCalls) {
+      const args =
+        fc.name === "update_player_stats"
+          ? adjustStatUpdates(fc.args, state, routerContext.result)
+          : fc.args;
 
-    const functionResponseParts: Content["parts"] = [];
+      console.log(`[Orchestrator] Executing tool: ${fc.name}`, args);
+      onEvent?.({ type: "tool_call", tool: fc.name, args });
+      const toolResult = executeTool(ctx, fc.name, args);
+      console.log(`[Orchestrator] Tool result:`, toolResult.message);
+      onEvent?.({ type: "tool_result", tool: fc.name, ...toolResult });
 
-    for (const part of functionCalls) {
-      const fc = part.functionCall!;
-      const name = fc.name!;
-      const rawArgs = (fc.args || {}) as Record<string, unknown>;
-      const args =
-        name === "update_player_stats"
-          ? adjustStatUpdates(rawArgs, state, routerContext.result)
-          : rawArgs;
-      
-      console.log(`[Orchestrator] Executing tool: ${name}`, args);
-      const result = executeTool(ctx, name, args);
-      console.log(`[Orchestrator] Tool result:`, result.message);
-
-      functionResponseParts.push(
-        createPartFromFunctionResponse(fc.id || "", name, {
-          success: result.success,
-          message: result.message,
-          data: result.data,
-        } as Record<string, unknown>)
-      );
+      functionResponseParts.push({
+        functionResponse: {
+          id: fc.id,
+          name: fc.name,
+          response: {
+            success: toolResult.success,
+            message: toolResult.message,
+            data: toolResult.data,
+          },
+        },
+      });
     }
 
-    contents.push({
-      role: "model",
-      parts: candidate.content.parts,
-    });
+    contents.push({ role: "model", parts: result.parts });
+    contents.push({ role: "user", parts: functionResponseParts });
 
-    contents.push({
-      role: "user",
-      parts: functionResponseParts,
-    });
-
-    response = await generateWithRetry(
-      async (ai, apiKey) => ({
-        model: config.geminiModel,
-        contents,
-        config: await buildGeminiConfig(ai, apiKey),
-      }),
-      `Orchestrator:loop-${iterations}`,
+    result = await generate(
+      { ...toolRequest, label: `Orchestrator:loop-${iterations}`, contents },
+      nextStoryStream(),
     );
   }
 
@@ -697,10 +721,9 @@ const processPlayerActionGoogleAI = async (
     console.warn(`[Orchestrator] Max iterations limit reached (${maxIterations}).`);
   }
 
-  const initialText = getFinalTextFromResponse(response);
-  const structured = parseStructuredOutput(initialText, false);
+  const structured = parseStructuredOutput(result.text, false);
   if (!structured) {
-    const finalContents = contents.concat({
+    const finalContents: LlmMessage[] = contents.concat({
       role: "user",
       parts: [
         {
@@ -709,17 +732,22 @@ const processPlayerActionGoogleAI = async (
       ],
     });
 
-    response = await generateWithRetry(
-      async (ai, apiKey) => ({
-        model: config.geminiModel,
-        contents: finalContents,
-        config: await buildFinalGeminiConfig(ai, apiKey),
-      }),
-      "Orchestrator:final",
-    );
+    result = await generate({
+      label: "Orchestrator:final",
+      systemInstruction,
+      cacheSystemInstruction: true,
+      contents: finalContents,
+      temperature: 0.7,
+      responseMimeType: "application/json",
+      responseJsonSchema: ORCHESTRATOR_RESPONSE_SCHEMA,
+    }, nextStoryStream());
   }
 
-  return buildResponse(response, ctx, state);
+  enforceSanityDrain(ctx, sanityBefore, onEvent);
+  if (itemCombine && !itemCombine.output) {
+    itemCombine = findModelCombine(ctx, itemCombine);
+  }
+  return { ...buildResponse(result.text, ctx, state), itemUse, itemCombine, effectTicks };
 };
 
 const parseStructuredOutput = (
@@ -770,11 +798,11 @@ const parseStructuredOutput = (
 };
 
 const buildResponse = (
-  data: any,
+  text: string,
   ctx: ExecutionContext,
   state: GameState
-): OrchestratorResponse => {
-  const finalText = getFinalTextFromResponse(data) || "AM is silent...";
+): BuiltResponse => {
+  const finalText = text || "AM is silent...";
 
   const structured = parseStructuredOutput(finalText);
   let storyText = structured?.storyText ?? cleanStoryText(finalText);
@@ -0,0 +1,116 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+export type PromptName = "orchestrator" | "router" | "summary" | "story";
+export type PromptVariables = Record<string, string | number>;
+
+interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  hash: string;
+  text: string;
+  file: string;
+  mtimeMs: number;
+}
+
+type PromptChangeListener = (name: PromptName, previousHash: string, hash: string) => void;
+
+const templates = new Map<PromptName, PromptTemplate>();
+const listeners: PromptChangeListener[] = [];
+
+const VERSION_FILE = /^v(\d+)\.md$/;
+
+// `prompts/<name>/v<N>.md`; the highest version wins unless PROMPT_VERSIONS pins one.
+const resolveFile = (name: PromptName) => {
+  const dir = path.join(config.promptsDir, name);
+  const pinned = config.promptVersions[name];
+  if (pinned) {
+    return { version: pinned, file: path.join(dir, `${pinned}.md`) };
+  }
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    throw new PromptTemplateError(`No prompt templates for "${name}" in ${dir}`);
+  }
+  const latest = files
+    .map((file) => VERSION_FILE.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .sort((a, b) => Number(b[1]) - Number(a[1]))[0];
+  if (!latest) {
+    throw new PromptTemplateError(`No prompt templates for "${name}" in ${dir}`);
+  }
+  return { version: `v${latest[1]}`, file: path.join(dir, latest[0]) };
+};
+
+/**
+ * The active template for `name`, re-read when its file changes so writers
+ * can edit prompts without a restart.
+ */
+const loadTemplate = (name: PromptName): PromptTemplate => {
+  const { version, file } = resolveFile(name);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    throw new PromptTemplateError(`Prompt template ${file} does not exist`);
+  }
+
+  const current = templates.get(name);
+  if (current && current.file === file && current.mtimeMs === mtimeMs) {
+    return current;
+  }
+
+  const text = fs.readFileSync(file, "utf8").trimEnd();
+  const template: PromptTemplate = {
+    name,
+    version,
+    hash: crypto.createHash("sha256").update(text).digest("hex").slice(0, 12),
+    text,
+    file,
+    mtimeMs,
+  };
+  templates.set(name, template);
+
+  if (current && current.hash !== template.hash) {
+    console.log(
+      `[Prompts] ${name} changed: ${current.version}@${current.hash} -> ${template.version}@${template.hash}`,
+    );
+    listeners.forEach((listener) => listener(name, current.hash, template.hash));
+  }
+  return template;
+};
+
+/**
+ * Renders the active template for `name`, replacing every `{{variable}}`.
+ * A variable the caller did not supply is an error rather than left in the
+ * prompt.
+ */
+export const renderPrompt = (name: PromptName, variables: PromptVariables = {}) =>
+  loadTemplate(name).text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    if (!(key in variables)) {
+      throw new PromptTemplateError(`Prompt "${name}" uses unknown variable {{${key}}}`);
+    }
+    return String(variables[key]);
+  });
+
+/** `version@hash` of every template rendered so far, e.g. `{ orchestrator: "v2@3f9a..." }`. */
+export const getPromptVersions = (): Partial<Record<PromptName, string>> =>
+  Object.fromEntries(
+    [...templates.values()].map((template) => [template.name, `${template.version}@${template.hash}`]),
+  );
+
+/** Calls `listener` whenever a loaded template's content changes. */
+export const onPromptChange = (listener: PromptChangeListener) => {
+  listeners.push(listener);
+};
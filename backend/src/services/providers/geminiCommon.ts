@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import { config } from "../../config";
+import type { LlmPart, LlmRequest, LlmResult, LlmUsage } from "../llmProvider";
+import { onPromptChange } from "../promptService";
+
+// Thinking tokens are billed as output but reported separately.
+const readGeminiUsage = (metadata: any): LlmUsage | undefined => {
+  if (!metadata) {
+    return undefined;
+  }
+  const inputTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  return {
+    inputTokens,
+    cachedTokens: metadata.cachedContentTokenCount ?? 0,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? inputTokens + outputTokens,
+  };
+};
+
+/** Reads `candidates[0]` and the usage of a Gemini response into the provider-neutral result. */
+export const readGeminiCandidate = (data: any): LlmResult => {
+  const parts: LlmPart[] = data?.candidates?.[0]?.content?.parts ?? [];
+  return {
+    text: parts
+      .filter((part: any) => part.text && !part.thought)
+      .map((part) => part.text)
+      .join("\n"),
+    functionCalls: parts
+      .filter((part) => part.functionCall)
+      .map((part) => ({
+        id: part.functionCall!.id,
+        name: part.functionCall!.name,
+        args: part.functionCall!.args ?? {},
+      })),
+    parts,
+    usage: readGeminiUsage(data?.usageMetadata),
+  };
+};
+
+/**
+ * Folds one streamed Gemini chunk into `parts`, joining consecutive text and
+ * reporting new answer text (not thoughts) to `onText`. Returns the chunk's
+ * usage metadata, which is cumulative, so the last one seen is the total.
+ */
+export const appendGeminiChunk = (
+  parts: LlmPart[],
+  chunk: any,
+  onText: (delta: string) => void,
+) => {
+  const incoming: Array<LlmPart & { thought?: boolean }> =
+    chunk?.candidates?.[0]?.content?.parts ?? [];
+  for (const part of incoming) {
+    const last = parts[parts.length - 1] as (LlmPart & { thought?: boolean }) | undefined;
+    if (typeof part.text === "string" && !part.thought) {
+      onText(part.text);
+    }
+    if (
+      last &&
+      typeof part.text === "string" &&
+      typeof last.text === "string" &&
+      Boolean(part.thought) === Boolean(last.thought)
+    ) {
+      last.text += part.text;
+      if (part.thoughtSignature) {
+        last.thoughtSignature = part.thoughtSignature;
+      }
+    } else {
+      parts.push({ ...part });
+    }
+  }
+  return chunk?.usageMetadata;
+};
+
+export const toFunctionCallingMode = (mode: LlmRequest["toolMode"]) =>
+  mode === "any" ? "ANY" : mode === "none" ? "NONE" : "AUTO";
+
+type CacheEntry = {
+  name: string;
+  expiresAt?: number;
+};
+
+export type CreateCachedContent = (
+  apiKey: string,
+  systemInstruction: string,
+) => Promise<{ name?: string; expireTime?: string }>;
+
+const parseExpireTime = (value?: string) => {
+  if (!value) {
+    return undefined;
+  }
+  const timestamp = Date.parse(value);
+  return Number.isFinite(timestamp) ? timestamp : undefined;
+};
+
+const isCacheValid = (entry: CacheEntry) => {
+  if (!entry.expiresAt) {
+    return true;
+  }
+  return Date.now() + 15_000 < entry.expiresAt;
+};
+
+/**
+ * Context caches for system instructions, one per API key and instruction.
+ * A key whose cache creation fails is not retried. Editing a prompt template
+ * drops every cache, so no request keeps using the old instruction.
+ */
+export const createContextCache = (label: string, create: CreateCachedContent) => {
+  const cacheByKey = new Map<string, CacheEntry>();
+  const inFlightByKey = new Map<string, Promise<CacheEntry | null>>();
+  const disabledKeys = new Set<string>();
+
+  onPromptChange((name) => {
+    if (cacheByKey.size > 0) {
+      console.log(`[${label}] Prompt "${name}" changed, invalidating ${cacheByKey.size} context cache(s)`);
+      cacheByKey.clear();
+    }
+  });
+
+  return async (apiKey: string, systemInstruction: string): Promise<string | null> => {
+    if (!config.contextCacheEnabled || !apiKey || disabledKeys.has(apiKey)) {
+      return null;
+    }
+
+    const hash = crypto.createHash("sha256").update(systemInstruction).digest("hex").slice(0, 16);
+    const cacheKey = `${apiKey}:${hash}`;
+
+    const existing = cacheByKey.get(cacheKey);
+    if (existing && isCacheValid(existing)) {
+      return existing.name;
+    }
+
+    const inFlight = inFlightByKey.get(cacheKey);
+    if (inFlight) {
+      const entry = await inFlight;
+      return entry?.name ?? null;
+    }
+
+    const createPromise = (async () => {
+      try {
+        const cached = await create(apiKey, systemInstruction);
+        if (!cached?.name) {
+          throw new Error("Cache creation returned no name");
+        }
+
+        const entry: CacheEntry = {
+          name: cached.name,
+          expiresAt: parseExpireTime(cached.expireTime),
+        };
+        cacheByKey.set(cacheKey, entry);
+        return entry;
+      } catch (error) {
+        console.warn(`[${label}] Context cache unavailable, disabling for key:`, error);
+        disabledKeys.add(apiKey);
+        return null;
+      }
+    })();
+
+    inFlightByKey.set(cacheKey, createPromise);
+    try {
+      const entry = await createPromise;
+      return entry?.name ?? null;
+    } finally {
+      inFlightByKey.delete(cacheKey);
+    }
+  };
+};
@@ -0,0 +1,90 @@
+import { Content, FunctionCallingConfigMode, GoogleGenAI } from "@google/genai";
+import { config } from "../../config";
+import { withKeyRotation } from "../../utils/retry";
+import type { LlmPart, LlmProvider, LlmRequest } from "../llmProvider";
+import {
+  appendGeminiChunk,
+  createContextCache,
+  readGeminiCandidate,
+  toFunctionCallingMode,
+} from "./geminiCommon";
+
+/** Google AI Studio through the @google/genai SDK, rotating GEMINI_API_KEYS. */
+export const createGoogleAiProvider = (): LlmProvider => {
+  const getCachedContent = createContextCache("GoogleAI", (apiKey, systemInstruction) =>
+    new GoogleGenAI({ apiKey }).caches.create({
+      model: config.geminiModel,
+      config: {
+        displayName: config.contextCacheDisplayName,
+        ttl: config.contextCacheTtl,
+        systemInstruction,
+      },
+    }),
+  );
+
+  const buildParams = async (request: LlmRequest, apiKey: string) => {
+    const cachedContent = request.cacheSystemInstruction
+      ? await getCachedContent(apiKey, request.systemInstruction)
+      : null;
+
+    return {
+      model: config.geminiModel,
+      contents: request.contents as Content[],
+      config: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        responseMimeType: request.responseMimeType,
+        responseJsonSchema: request.responseJsonSchema,
+        ...(request.tools?.length
+          ? {
+              tools: [{ functionDeclarations: request.tools }],
+              toolConfig: {
+                functionCallingConfig: {
+                  mode: FunctionCallingConfigMode[toFunctionCallingMode(request.toolMode)],
+                },
+              },
+            }
+          : {}),
+        ...(cachedContent
+          ? { cachedContent }
+          : { systemInstruction: request.systemInstruction }),
+      },
+    };
+  };
+
+  const generate = (request: LlmRequest) =>
+    withKeyRotation(
+      "gemini",
+      async (apiKey) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent(await buildParams(request, apiKey));
+        return readGeminiCandidate(response);
+      },
+      { label: request.label },
+    );
+
+  const generateStream = (request: LlmRequest, onText: (delta: string) => void) => {
+    // Streamed text cannot be taken back, so a failure after some is final.
+    let streamed = false;
+    const report = (delta: string) => {
+      streamed = true;
+      onText(delta);
+    };
+    return withKeyRotation(
+      "gemini",
+      async (apiKey) => {
+        const ai = new GoogleGenAI({ apiKey });
+        const stream = await ai.models.generateContentStream(await buildParams(request, apiKey));
+        const parts: LlmPart[] = [];
+        let usageMetadata: unknown;
+        for await (const chunk of stream) {
+          usageMetadata = appendGeminiChunk(parts, chunk, report) ?? usageMetadata;
+        }
+        return readGeminiCandidate({ candidates: [{ content: { parts } }], usageMetadata });
+      },
+      { label: request.label, canRetry: () => !streamed },
+    );
+  };
+
+  return { name: "google", generate, generateStream };
+};
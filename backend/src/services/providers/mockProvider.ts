@@ -0,0 +1,246 @@
+import fs from "fs";
+import { config } from "../../config";
+import { mockFixturesSchema } from "../../models/schemas";
+import type { ChoiceOption } from "../../models/types";
+import type {
+  LlmFunctionCall,
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmUsage,
+} from "../llmProvider";
+
+/**
+ * Offline provider for development and CI. Each player action is answered by
+ * a script written in a tiny line-based DSL:
+ *
+ *   call <tool> key=value ...       queue a tool call (values are JSON or bare words)
+ *   say "text"                      append a paragraph to the story
+ *   choice "text" [type=stealth] [check=dexterity:12]
+ *
+ * Scripts come from the first fixture rule whose `match` regex matches the
+ * action, or inline from an action of the form `#mock <stmt>; <stmt>; ...`.
+ */
+
+interface MockScript {
+  name: string;
+  router: Record<string, unknown>;
+  calls: LlmFunctionCall[];
+  story: string[];
+  choices: ChoiceOption[];
+}
+
+interface MockRule {
+  pattern: RegExp;
+  script: MockScript;
+}
+
+export class MockScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MockScriptError";
+  }
+}
+
+const INLINE_PREFIX = "#mock ";
+
+const DEFAULT_ROUTER = {
+  intent: "unknown",
+  confidence: 1,
+  suggestedDifficulty: "medium",
+  emotionalTone: "neutral",
+};
+
+const DEFAULT_CHOICES = ["Look around", "Try to move forward", "Freeze and listen"];
+
+const TOKEN = /([A-Za-z_]\w*)=("(?:[^"\\]|\\.)*"|\[(?:[^\]"]|"(?:[^"\\]|\\.)*")*\]|[^\s;"]+)|"(?:[^"\\]|\\.)*"|[^\s;"=]+|;|\n/g;
+
+const parseValue = (raw: string): unknown => {
+  if (raw.startsWith('"') || raw.startsWith("[")) {
+    return JSON.parse(raw);
+  }
+  if (raw === "true" || raw === "false") {
+    return raw === "true";
+  }
+  const number = Number(raw);
+  return Number.isFinite(number) ? number : raw;
+};
+
+type Token = { key?: string; value: string };
+
+const tokenize = (source: string): Token[][] => {
+  const statements: Token[][] = [[]];
+  for (const match of source.matchAll(TOKEN)) {
+    if (match[0] === ";" || match[0] === "\n") {
+      statements.push([]);
+    } else if (match[1]) {
+      statements[statements.length - 1].push({ key: match[1], value: match[2] });
+    } else {
+      statements[statements.length - 1].push({ value: match[0] });
+    }
+  }
+  return statements.filter((tokens) => tokens.length > 0);
+};
+
+const parseChoice = (tokens: Token[]): ChoiceOption => {
+  const [text, ...options] = tokens;
+  const choice: ChoiceOption = { text: String(parseValue(text.value)) };
+  for (const option of options) {
+    if (option.key === "type") {
+      choice.type = option.value as ChoiceOption["type"];
+    } else if (option.key === "check") {
+      const [stat, required] = option.value.split(":");
+      choice.check = {
+        stat: stat as NonNullable<ChoiceOption["check"]>["stat"],
+        required: Number(required),
+      };
+    } else {
+      throw new MockScriptError(`Unknown choice option "${option.key ?? option.value}"`);
+    }
+  }
+  return choice;
+};
+
+export const parseMockScript = (name: string, lines: string[]): MockScript => {
+  const script: MockScript = { name, router: {}, calls: [], story: [], choices: [] };
+
+  for (const tokens of tokenize(lines.join("\n"))) {
+    const [command, ...rest] = tokens;
+    try {
+      if (command.value === "call" && rest[0] && !rest[0].key) {
+        const args: Record<string, unknown> = {};
+        for (const arg of rest.slice(1)) {
+          if (!arg.key) {
+            throw new MockScriptError(`Expected key=value, got "${arg.value}"`);
+          }
+          args[arg.key] = parseValue(arg.value);
+        }
+        script.calls.push({ id: `mock-${script.calls.length + 1}`, name: rest[0].value, args });
+      } else if (command.value === "say" && rest.length === 1) {
+        script.story.push(String(parseValue(rest[0].value)));
+      } else if (command.value === "choice" && rest.length > 0) {
+        script.choices.push(parseChoice(rest));
+      } else {
+        throw new MockScriptError(`Unknown statement "${command.value}"`);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new MockScriptError(`Mock script "${name}": ${reason}`);
+    }
+  }
+
+  return script;
+};
+
+const loadRules = (): MockRule[] => {
+  const fixtures = mockFixturesSchema.parse(
+    JSON.parse(fs.readFileSync(config.mockFixturesFile, "utf8")),
+  );
+  console.log(`[MockLLM] Loaded ${fixtures.rules.length} rule(s) from ${config.mockFixturesFile}`);
+  return fixtures.rules.map((rule) => ({
+    pattern: new RegExp(rule.match, "i"),
+    script: { ...parseMockScript(rule.name, rule.script), router: rule.router ?? {} },
+  }));
+};
+
+const ACTION_PATTERN = /player action:\s*"([\s\S]*?)"\s*$/im;
+
+// The player action is quoted in the last user message that carries one.
+const findPlayerAction = (contents: LlmMessage[]) => {
+  for (let i = contents.length - 1; i >= 0; i--) {
+    if (contents[i].role !== "user") continue;
+    for (const part of contents[i].parts) {
+      const match = part.text?.match(ACTION_PATTERN);
+      if (match) return match[1];
+    }
+  }
+  return "";
+};
+
+const narrativeJson = (script: MockScript, request: LlmRequest) => {
+  const storyText = script.story.join("\n\n") || "AM watches you in silence...";
+  const choices = [...script.choices];
+  while (choices.length < 3) {
+    choices.push({ text: DEFAULT_CHOICES[choices.length] });
+  }
+
+  // The legacy story service expects plain choices and its own extra fields.
+  if (request.label.startsWith("Story:")) {
+    const scene = script.calls.find((call) => call.name === "generate_scene_image");
+    return JSON.stringify({
+      story_text: storyText,
+      stat_updates: {},
+      choices: choices.slice(0, 3).map((choice) => choice.text),
+      image_prompt: String(scene?.args.visualDescription ?? "A rusted corridor inside AM"),
+    });
+  }
+  return JSON.stringify({ story_text: storyText, choices: choices.slice(0, 3) });
+};
+
+// About four characters per token, so usage accounting and budgets can be
+// exercised offline.
+const estimateUsage = (request: LlmRequest, output: string): LlmUsage => {
+  const inputTokens = Math.ceil(
+    (request.systemInstruction.length + JSON.stringify(request.contents).length) / 4,
+  );
+  const outputTokens = Math.ceil(output.length / 4);
+  return { inputTokens, cachedTokens: 0, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+export const createMockProvider = (): LlmProvider => {
+  const rules = loadRules();
+
+  const resolveScript = (action: string): MockScript => {
+    if (action.startsWith(INLINE_PREFIX)) {
+      return parseMockScript("inline", [action.slice(INLINE_PREFIX.length)]);
+    }
+    const rule = rules.find((candidate) => candidate.pattern.test(action));
+    return rule?.script ?? { name: "none", router: {}, calls: [], story: [], choices: [] };
+  };
+
+  const generate = async (request: LlmRequest): Promise<LlmResult> => {
+    // The memory summary simply carries the events over; the caller trims it.
+    if (request.label.startsWith("Memory:")) {
+      const prompt = request.contents[0]?.parts[0]?.text ?? "";
+      const previous = prompt.match(/STORY SO FAR:\n([\s\S]*?)\n\nNEW EVENTS:/)?.[1] ?? "";
+      const events = prompt.match(/NEW EVENTS:\n([\s\S]*?)\n\nWrite/)?.[1] ?? "";
+      const text = [previous === "(nothing yet)" ? "" : previous, events]
+        .filter(Boolean)
+        .join("\n");
+      return { text, functionCalls: [], parts: [{ text }], usage: estimateUsage(request, text) };
+    }
+
+    const script = resolveScript(findPlayerAction(request.contents));
+    const toolNames = new Set(request.tools?.map((tool) => tool.name) ?? []);
+
+    let functionCalls: LlmFunctionCall[] = [];
+    if (toolNames.has("classify_intent")) {
+      functionCalls = [{
+        name: "classify_intent",
+        args: { ...DEFAULT_ROUTER, reasoning: `Mock rule "${script.name}"`, ...script.router },
+      }];
+    } else if (toolNames.size > 0 && request.toolMode !== "none") {
+      const answered = request.contents.some((message) =>
+        message.parts.some((part) => part.functionResponse),
+      );
+      if (!answered) {
+        functionCalls = script.calls.filter((call) => toolNames.has(call.name));
+      }
+    }
+
+    if (functionCalls.length > 0) {
+      return {
+        text: "",
+        functionCalls,
+        parts: functionCalls.map((functionCall) => ({ functionCall })),
+        usage: estimateUsage(request, JSON.stringify(functionCalls)),
+      };
+    }
+
+    const text = narrativeJson(script, request);
+    return { text, functionCalls: [], parts: [{ text }], usage: estimateUsage(request, text) };
+  };
+
+  return { name: "mock", generate };
+};
@@ -0,0 +1,242 @@
+import type { FunctionDeclaration, Schema } from "@google/genai";
+import OpenAI from "openai";
+import type { CompletionUsage } from "openai/resources/completions";
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionFunctionTool,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import { config } from "../../config";
+import { withRetry } from "../../utils/retry";
+import type {
+  LlmFunctionCall,
+  LlmMessage,
+  LlmPart,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmUsage,
+} from "../llmProvider";
+
+/** Gemini `Schema` (upper-case `Type` enums) to plain JSON Schema. */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type && schema.type !== "TYPE_UNSPECIFIED") {
+    result.type = schema.type.toLowerCase();
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toJsonSchema(property)]),
+    );
+  }
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.required?.length) result.required = schema.required;
+  if (schema.minItems !== undefined) result.minItems = Number(schema.minItems);
+  if (schema.maxItems !== undefined) result.maxItems = Number(schema.maxItems);
+  return result;
+};
+
+export const toOpenAiTool = (declaration: FunctionDeclaration): ChatCompletionFunctionTool => ({
+  type: "function",
+  function: {
+    name: declaration.name ?? "",
+    description: declaration.description,
+    parameters: (declaration.parametersJsonSchema as Record<string, unknown> | undefined) ??
+      (declaration.parameters
+        ? toJsonSchema(declaration.parameters)
+        : { type: "object", properties: {} }),
+  },
+});
+
+const textOf = (parts: LlmPart[]) =>
+  parts.map((part) => part.text).filter(Boolean).join("\n");
+
+/**
+ * Gemini-shaped contents to chat messages. Tool results are matched to the
+ * preceding assistant tool calls by id, or by position when the ids are missing.
+ */
+const toMessages = (request: LlmRequest): ChatCompletionMessageParam[] => {
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: request.systemInstruction },
+  ];
+  let pendingCallIds: string[] = [];
+
+  request.contents.forEach((message: LlmMessage, index) => {
+    const calls = message.parts.filter((part) => part.functionCall);
+    const responses = message.parts.filter((part) => part.functionResponse);
+
+    if (message.role === "model") {
+      pendingCallIds = calls.map((part, i) => part.functionCall!.id || `call_${index}_${i}`);
+      messages.push({
+        role: "assistant",
+        content: textOf(message.parts) || null,
+        ...(calls.length > 0
+          ? {
+              tool_calls: calls.map((part, i) => ({
+                id: pendingCallIds[i],
+                type: "function" as const,
+                function: {
+                  name: part.functionCall!.name,
+                  arguments: JSON.stringify(part.functionCall!.args),
+                },
+              })),
+            }
+          : {}),
+      });
+      return;
+    }
+
+    responses.forEach((part, i) => {
+      messages.push({
+        role: "tool",
+        tool_call_id: part.functionResponse!.id || pendingCallIds[i] || `call_${index}_${i}`,
+        content: JSON.stringify(part.functionResponse!.response),
+      });
+    });
+    const text = textOf(message.parts);
+    if (text) {
+      messages.push({ role: "user", content: text });
+    }
+  });
+
+  return messages;
+};
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    console.warn("[OpenAI] Tool call arguments are not valid JSON:", raw);
+    return {};
+  }
+};
+
+const toUsage = (usage: CompletionUsage | null | undefined): LlmUsage | undefined =>
+  usage
+    ? {
+        inputTokens: usage.prompt_tokens,
+        cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+
+const toResult = (
+  text: string,
+  functionCalls: LlmFunctionCall[],
+  usage: CompletionUsage | null | undefined,
+): LlmResult => ({
+  text,
+  functionCalls,
+  parts: [
+    ...(text ? [{ text }] : []),
+    ...functionCalls.map((functionCall) => ({ functionCall })),
+  ],
+  usage: toUsage(usage),
+});
+
+const TOOL_CHOICE = { auto: "auto", any: "required", none: "none" } as const;
+
+/**
+ * Any OpenAI-compatible chat-completions endpoint (llama.cpp server, vLLM,
+ * Ollama, ...). Context caching is left to the server's own prompt cache.
+ */
+export const createOpenAiProvider = (): LlmProvider => {
+  const client = new OpenAI({
+    baseURL: config.openaiBaseUrl,
+    apiKey: config.openaiApiKey || "not-needed",
+    maxRetries: 0,
+  });
+
+  const buildParams = (request: LlmRequest): ChatCompletionCreateParamsNonStreaming => ({
+    model: config.openaiModel,
+    messages: toMessages(request),
+    temperature: request.temperature,
+    ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+    ...(request.tools?.length
+      ? {
+          tools: request.tools.map(toOpenAiTool),
+          tool_choice: TOOL_CHOICE[request.toolMode ?? "auto"],
+        }
+      : {}),
+    ...(request.responseJsonSchema
+      ? {
+          response_format: {
+            type: "json_schema" as const,
+            json_schema: { name: "response", schema: request.responseJsonSchema },
+          },
+        }
+      : request.responseMimeType
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+  });
+
+  const generate = async (request: LlmRequest): Promise<LlmResult> => {
+    const completion = await withRetry(() => client.chat.completions.create(buildParams(request)), {
+      label: request.label,
+    });
+    const message = completion.choices[0]?.message;
+
+    return toResult(
+      message?.content ?? "",
+      (message?.tool_calls ?? [])
+        .filter((call) => call.type === "function")
+        .map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          args: parseArguments(call.function.arguments),
+        })),
+      completion.usage,
+    );
+  };
+
+  const generateStream = async (
+    request: LlmRequest,
+    onText: (delta: string) => void,
+  ): Promise<LlmResult> => {
+    const stream = await withRetry(
+      () =>
+        client.chat.completions.create({
+          ...buildParams(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      { label: request.label },
+    );
+
+    let text = "";
+    let usage: CompletionUsage | null | undefined;
+    // Tool calls arrive as fragments keyed by their index in the message.
+    const calls: Array<{ id: string; name: string; arguments: string }> = [];
+    for await (const chunk of stream) {
+      // The usage arrives in a last chunk without choices.
+      usage = chunk.usage ?? usage;
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onText(delta.content);
+      }
+      for (const fragment of delta?.tool_calls ?? []) {
+        const call = (calls[fragment.index] ??= { id: "", name: "", arguments: "" });
+        call.id ||= fragment.id ?? "";
+        call.name += fragment.function?.name ?? "";
+        call.arguments += fragment.function?.arguments ?? "";
+      }
+    }
+
+    return toResult(
+      text,
+      calls.filter(Boolean).map((call, i) => ({
+        id: call.id || `call_${i}`,
+        name: call.name,
+        args: parseArguments(call.arguments),
+      })),
+      usage,
+    );
+  };
+
+  return { name: "openai", generate, generateStream };
+};
@@ -0,0 +1,137 @@
+import { config } from "../../config";
+import { withKeyRotation } from "../../utils/retry";
+import type { LlmPart, LlmProvider, LlmRequest } from "../llmProvider";
+import {
+  appendGeminiChunk,
+  createContextCache,
+  readGeminiCandidate,
+  toFunctionCallingMode,
+} from "./geminiCommon";
+
+const VERTEX_AI_BASE_URL = "https://aiplatform.googleapis.com/v1";
+
+// Cached contents live in a project location, and requests that use them must
+// go to the same regional endpoint.
+const regionalBase = () => {
+  const location = config.vertexAILocation;
+  return `https://${location}-aiplatform.googleapis.com/v1/projects/${config.googleCloudProject}/locations/${location}`;
+};
+
+const post = async (url: string, body: unknown) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Vertex AI error (${response.status}): ${await response.text()}`);
+  }
+  return response;
+};
+
+const postJson = async (url: string, body: unknown): Promise<any> =>
+  (await post(url, body)).json();
+
+/** Calls `onData` with the payload of every `data:` line of an SSE body. */
+const readSseData = async (response: Response, onData: (data: string) => void) => {
+  if (!response.body) {
+    throw new Error("Vertex AI stream has no body");
+  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) {
+        onData(line.slice(5).trim());
+      }
+    }
+  }
+  if (buffer.startsWith("data:")) {
+    onData(buffer.slice(5).trim());
+  }
+};
+
+/** Vertex AI through its REST API with API keys, rotating VERTEX_AI_API_KEYS. */
+export const createVertexProvider = (): LlmProvider => {
+  const getCachedContent = createContextCache("VertexAI", (apiKey, systemInstruction) => {
+    if (!config.googleCloudProject) {
+      throw new Error("GOOGLE_CLOUD_PROJECT is not set");
+    }
+    return postJson(`${regionalBase()}/cachedContents?key=${apiKey}`, {
+      model: `projects/${config.googleCloudProject}/locations/${config.vertexAILocation}/publishers/google/models/${config.geminiModel}`,
+      displayName: config.contextCacheDisplayName,
+      ttl: config.contextCacheTtl,
+      systemInstruction: { parts: [{ text: systemInstruction }] },
+    });
+  });
+
+  const buildCall = async (request: LlmRequest, apiKey: string, method: string) => {
+    const cachedContent = request.cacheSystemInstruction
+      ? await getCachedContent(apiKey, request.systemInstruction)
+      : null;
+
+    const base = cachedContent ? regionalBase() : VERTEX_AI_BASE_URL;
+    const alt = method === "streamGenerateContent" ? "alt=sse&" : "";
+    return {
+      url: `${base}/publishers/google/models/${config.geminiModel}:${method}?${alt}key=${apiKey}`,
+      body: {
+        contents: request.contents,
+        ...(cachedContent
+          ? { cachedContent }
+          : { systemInstruction: { parts: [{ text: request.systemInstruction }] } }),
+        ...(request.tools?.length
+          ? {
+              tools: [{ functionDeclarations: request.tools }],
+              toolConfig: {
+                functionCallingConfig: { mode: toFunctionCallingMode(request.toolMode) },
+              },
+            }
+          : {}),
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          responseMimeType: request.responseMimeType,
+          responseJsonSchema: request.responseJsonSchema,
+        },
+      },
+    };
+  };
+
+  const generate = (request: LlmRequest) =>
+    withKeyRotation(
+      "vertex",
+      async (apiKey) => {
+        const { url, body } = await buildCall(request, apiKey, "generateContent");
+        return readGeminiCandidate(await postJson(url, body));
+      },
+      { label: request.label },
+    );
+
+  const generateStream = (request: LlmRequest, onText: (delta: string) => void) => {
+    // Streamed text cannot be taken back, so a failure after some is final.
+    let streamed = false;
+    const report = (delta: string) => {
+      streamed = true;
+      onText(delta);
+    };
+    return withKeyRotation(
+      "vertex",
+      async (apiKey) => {
+        const { url, body } = await buildCall(request, apiKey, "streamGenerateContent");
+        const parts: LlmPart[] = [];
+        let usageMetadata: unknown;
+        await readSseData(await post(url, body), (data) => {
+          usageMetadata = appendGeminiChunk(parts, JSON.parse(data), report) ?? usageMetadata;
+        });
+        return readGeminiCandidate({ candidates: [{ content: { parts } }], usageMetadata });
+      },
+      { label: request.label, canRetry: () => !streamed },
+    );
+  };
+
+  return { name: "vertex", generate, generateStream };
+};
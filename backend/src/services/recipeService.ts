@@ -0,0 +1,52 @@
+import fs from "fs";
+import { config } from "../config";
+import { recipeSchema } from "../models/schemas";
+import type { GameState, Recipe } from "../models/types";
+import { scenarioFor } from "./scenarioService";
+
+let recipes: Recipe[] | null = null;
+
+/**
+ * Reads RECIPES_FILE once. An invalid recipe is skipped with a warning; a
+ * missing file only means there are no known combinations.
+ */
+const loadRecipes = () => {
+  if (recipes) {
+    return recipes;
+  }
+
+  recipes = [];
+  let raw: unknown[] = [];
+  try {
+    raw = JSON.parse(fs.readFileSync(config.recipesFile, "utf8"));
+  } catch (error) {
+    console.error(`[Recipes] Cannot read ${config.recipesFile}:`, error);
+  }
+
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    const parsed = recipeSchema.safeParse(entry);
+    if (parsed.success) {
+      recipes.push(parsed.data as Recipe);
+    } else {
+      console.warn(`[Recipes] Skipping invalid recipe:`, parsed.error.issues);
+    }
+  }
+  console.log(`[Recipes] Loaded ${recipes.length} recipe(s)`);
+  return recipes;
+};
+
+const normalizeNames = (names: string[]) =>
+  names.map((name) => name.trim().toLowerCase()).sort().join("\n");
+
+/** The recipe for exactly these item names in the session's scenario, if any. */
+export const findRecipe = (state: GameState, names: string[]) => {
+  const scenarioId = scenarioFor(state).id;
+  const key = normalizeNames(names);
+  return (
+    loadRecipes().find(
+      (recipe) =>
+        (!recipe.scenarios || recipe.scenarios.includes(scenarioId)) &&
+        normalizeNames(recipe.inputs) === key,
+    ) ?? null
+  );
+};
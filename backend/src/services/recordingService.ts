@@ -0,0 +1,175 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config";
+import { GameState, ItemRequest } from "../models/types";
+import type { ModelProviderName } from "./llmProvider";
+
+export interface RecordingHeader {
+  type: "session";
+  sessionId: string;
+  createdAt: string;
+  provider: ModelProviderName | null;
+  routerEnabled: boolean;
+  model: string;
+  state: GameState;
+}
+
+export interface RecordedModelCall {
+  type: "model";
+  turn: number;
+  label: string;
+  request: unknown;
+  response: unknown;
+}
+
+export interface RecordedTurn {
+  type: "turn";
+  turn: number;
+  action: string;
+  items?: ItemRequest;
+  state: GameState;
+}
+
+/** The session state was replaced outside of a turn (e.g. by a rewind). */
+export interface RecordedRestore {
+  type: "restore";
+  state: GameState;
+}
+
+export type RecordingLine = RecordingHeader | RecordedModelCall | RecordedTurn | RecordedRestore;
+
+export interface ReplaySource {
+  provider: ModelProviderName | null;
+  routerEnabled: boolean;
+  calls: RecordedModelCall[];
+}
+
+interface ModelCallScope {
+  sessionId: string;
+  turn: number;
+  replay?: ReplaySource;
+}
+
+export class ReplayMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayMismatchError";
+  }
+}
+
+const scope = new AsyncLocalStorage<ModelCallScope>();
+
+const SAFE_SESSION_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const getRecordingPath = (sessionId: string) =>
+  path.resolve(config.modelRecordingDir, `${sessionId}.jsonl`);
+
+const appendLine = async (sessionId: string, line: RecordingLine) => {
+  if (!config.modelRecordingEnabled || !SAFE_SESSION_ID.test(sessionId)) {
+    return;
+  }
+  // Serialize before awaiting: the state in `line` keeps being mutated.
+  const serialized = `${JSON.stringify(line)}\n`;
+  try {
+    await fs.mkdir(path.resolve(config.modelRecordingDir), { recursive: true });
+    await fs.appendFile(getRecordingPath(sessionId), serialized, "utf8");
+  } catch (error) {
+    console.warn("[Recorder] Failed to write recording:", error);
+  }
+};
+
+const configuredProvider = (): ModelProviderName | null => {
+  if (config.llmProvider) {
+    return config.llmProvider;
+  }
+  if (config.useVertexAI && config.vertexAIApiKeys.length > 0) {
+    return "vertex";
+  }
+  return config.geminiApiKeys.length > 0 ? "google" : null;
+};
+
+/** The provider to use for this call: the recorded one while replaying. */
+export const getActiveProvider = () => {
+  const replay = scope.getStore()?.replay;
+  return replay ? replay.provider : configuredProvider();
+};
+
+export const isRouterEnabled = () => {
+  const replay = scope.getStore()?.replay;
+  return replay ? replay.routerEnabled : configuredProvider() !== null;
+};
+
+export const runWithModelScope = <T>(
+  sessionId: string,
+  turn: number,
+  fn: () => Promise<T>,
+  replay?: ReplaySource,
+) => scope.run({ sessionId, turn, replay }, fn);
+
+/**
+ * Wraps one model request. While recording, the request and response are
+ * appended to the session's recording; while replaying, the next recorded
+ * response is returned instead and `invoke` is never called.
+ */
+export const recordModelCall = async <T>(
+  label: string,
+  invoke: () => Promise<T>,
+  describeRequest: () => unknown,
+): Promise<T> => {
+  const current = scope.getStore();
+
+  if (current?.replay) {
+    const next = current.replay.calls.shift();
+    if (!next) {
+      throw new ReplayMismatchError(`Turn ${current.turn}: no recorded response left for ${label}`);
+    }
+    if (next.label !== label) {
+      throw new ReplayMismatchError(
+        `Turn ${current.turn}: expected call ${next.label}, replay made ${label}`,
+      );
+    }
+    return next.response as T;
+  }
+
+  const response = await invoke();
+  if (current) {
+    await appendLine(current.sessionId, {
+      type: "model",
+      turn: current.turn,
+      label,
+      request: describeRequest(),
+      response,
+    });
+  }
+  return response;
+};
+
+export const recordSessionStart = (sessionId: string, state: GameState) =>
+  appendLine(sessionId, {
+    type: "session",
+    sessionId,
+    createdAt: new Date().toISOString(),
+    provider: configuredProvider(),
+    routerEnabled: configuredProvider() !== null,
+    model: config.geminiModel,
+    state,
+  });
+
+export const recordTurn = (
+  sessionId: string,
+  action: string,
+  state: GameState,
+  items?: ItemRequest,
+) => appendLine(sessionId, { type: "turn", turn: state.turn, action, items, state });
+
+export const recordRestore = (sessionId: string, state: GameState) =>
+  appendLine(sessionId, { type: "restore", state });
+
+export const readRecording = async (file: string): Promise<RecordingLine[]> => {
+  const raw = await fs.readFile(file, "utf8");
+  return raw
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as RecordingLine);
+};
@@ -0,0 +1,78 @@
+import { config } from "../config";
+import type { GameState, RecalledPassage, TurnJournalEntry } from "../models/types";
+import { createBm25Index } from "../utils/bm25";
+import { readJournal } from "./gameService";
+
+// Image prompts echo the story and would crowd out the events.
+const SKIPPED_TOOLS = new Set(["generate_scene_image"]);
+
+const clip = (text: string) =>
+  text.length > config.retrievalPassageChars
+    ? `${text.slice(0, config.retrievalPassageChars - 3).trimEnd()}...`
+    : text;
+
+/**
+ * The journal as it stands on the current timeline: entries left behind by a
+ * rewind are dropped, and a replayed turn keeps only its latest entry.
+ */
+const currentTimeline = (entries: TurnJournalEntry[], turn: number) => {
+  const byTurn = new Map<number, TurnJournalEntry>();
+  for (const entry of entries) {
+    if (entry.turn <= turn) {
+      byTurn.set(entry.turn, entry);
+    }
+  }
+  return [...byTurn.values()].sort((a, b) => a.turn - b.turn);
+};
+
+const toPassages = (entry: TurnJournalEntry): Omit<RecalledPassage, "score">[] => {
+  const events = entry.toolCalls
+    .filter((call) => call.result.success && !SKIPPED_TOOLS.has(call.toolName))
+    .map((call) => call.result.message)
+    .join(" ");
+  return [
+    { turn: entry.turn, source: "story", text: `Player: ${entry.action}\n${entry.storyText}` },
+    ...(events ? [{ turn: entry.turn, source: "events" as const, text: events }] : []),
+  ];
+};
+
+/**
+ * Ranks the passages of past turns against the coming action and the current
+ * scene with BM25, and returns the best `RETRIEVAL_TOP_K`. Turns still in the
+ * verbatim history are skipped, since the model already sees them.
+ */
+export const recallPassages = async (
+  sessionId: string,
+  state: GameState,
+  action: string,
+): Promise<RecalledPassage[]> => {
+  if (config.retrievalTopK === 0) {
+    return [];
+  }
+
+  const { entries } = await readJournal(sessionId, 0, Number.MAX_SAFE_INTEGER);
+  const visible = new Set(
+    state.history.filter((entry) => entry.role === "model").map((entry) => entry.parts),
+  );
+  const passages = currentTimeline(entries, state.turn)
+    .filter((entry) => !visible.has(entry.storyText))
+    .flatMap(toPassages);
+  if (passages.length === 0) {
+    return [];
+  }
+
+  const query = [action, state.currentLocation ?? "", ...state.tags].join(" ");
+  const recalled = createBm25Index(passages.map((passage) => passage.text))
+    .search(query, config.retrievalTopK)
+    .map(({ index, score }) => ({
+      ...passages[index],
+      text: clip(passages[index].text),
+      score: Number(score.toFixed(3)),
+    }));
+  if (recalled.length > 0) {
+    console.log(
+      `[Retrieval] Recalled ${recalled.length} of ${passages.length} passages from turns ${recalled.map((passage) => passage.turn).join(", ")}`,
+    );
+  }
+  return recalled;
+};
@@ -1,6 +1,8 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { config } from "../config";
+import { FunctionDeclaration, Type } from "@google/genai";
 import { GameState } from "../models/types";
+import { generate } from "./llmProvider";
+import { renderPrompt } from "./promptService";
+import { ReplayMismatchError } from "./recordingService";
 
 export type IntentType = 
   | "exploration"
@@ -20,50 +22,7 @@ export interface RouterResult {
   emotionalTone: "neutral" | "aggressive" | "fearful" | "desperate" | "cunning";
 }
 
-const VERTEX_AI_BASE_URL = "https://aiplatform.googleapis.com/v1";
-
-let genAI: GoogleGenAI | null = null;
-
-const getGenAI = (): GoogleGenAI => {
-  if (!config.geminiApiKey) {
-    throw new Error("GEMINI_API_KEY is not set");
-  }
-  if (!genAI) {
-    genAI = new GoogleGenAI({ apiKey: config.geminiApiKey });
-  }
-  return genAI;
-};
-
-const ROUTER_SYSTEM_PROMPT = `You are an intent classifier for a horror RPG game. 
-Analyze the player's action and classify it into one of these categories:
-
-INTENT TYPES:
-- exploration: Looking around, examining objects, moving to new areas
-- combat: Attacking, fighting, using weapons aggressively
-- dialogue: Talking, asking questions, interacting with entities
-- item_use: Using an item from inventory
-- self_harm: Actions that would hurt the player themselves (drinking poison, jumping off, etc.)
-- escape_attempt: Trying to escape, run away, find exit
-- rest: Resting, waiting, doing nothing active
-- unknown: Cannot determine intent
-
-DIFFICULTY ASSESSMENT:
-- trivial: No risk, simple observation
-- easy: Minor risk, simple action
-- medium: Moderate risk, requires some skill
-- hard: High risk, dangerous action
-- deadly: Almost certain to cause severe harm or death
-
-EMOTIONAL TONE:
-- neutral: Calm, rational action
-- aggressive: Angry, violent intent
-- fearful: Scared, defensive action
-- desperate: Last resort, panic
-- cunning: Clever, strategic thinking
-
-You must respond exclusively by calling the classify_intent tool with appropriate arguments. Do not output raw JSON or natural-language text directly.`;
-
-const routerFunctionDeclaration = {
+const routerFunctionDeclaration: FunctionDeclaration = {
   name: "classify_intent",
   description: "Classifies the player's intent and provides analysis",
   parameters: {
@@ -105,57 +64,22 @@ Active Tags: ${state.tags.join(", ") || "none"}
 Game Over: ${state.isGameOver}`;
 
   try {
-    let candidate: any;
-
-    if (config.useVertexAI && config.vertexAIApiKey) {
-      const url = `${VERTEX_AI_BASE_URL}/publishers/google/models/${config.geminiModel}:generateContent?key=${config.vertexAIApiKey}`;
-      
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{
-            role: "user",
-            parts: [{
-              text: `${contextInfo}\n\nPlayer Action: "${userAction}"\n\nClassify this action.`,
-            }],
-          }],
-          systemInstruction: { parts: [{ text: ROUTER_SYSTEM_PROMPT }] },
-          tools: [{ functionDeclarations: [routerFunctionDeclaration] }],
-          generationConfig: { temperature: 0.3 },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Vertex AI error (${response.status}): ${await response.text()}`);
-      }
-
-      const data = await response.json();
-      candidate = data.candidates?.[0];
-    } else if (config.geminiApiKey) {
-      const ai = getGenAI();
-      const response = await ai.models.generateContent({
-        model: config.geminiModel,
-        contents: [{
-          role: "user",
-          parts: [{
-            text: `${contextInfo}\n\nPlayer Action: "${userAction}"\n\nClassify this action.`,
-          }],
+    const result = await generate({
+      label: "Router:classify",
+      systemInstruction: renderPrompt("router"),
+      contents: [{
+        role: "user",
+        parts: [{
+          text: `${contextInfo}\n\nPlayer Action: "${userAction}"\n\nClassify this action.`,
         }],
-        config: {
-          systemInstruction: ROUTER_SYSTEM_PROMPT,
-          temperature: 0.3,
-          tools: [{ functionDeclarations: [routerFunctionDeclaration] }],
-        },
-      });
-      candidate = response.candidates?.[0];
-    } else {
-      throw new Error("No AI service configured");
-    }
+      }],
+      temperature: 0.3,
+      tools: [routerFunctionDeclaration],
+    });
 
-    const functionCall = candidate?.content?.parts?.find((p: any) => p.functionCall)?.functionCall;
+    const functionCall = result.functionCalls.find((call) => call.name === "classify_intent");
 
-    if (functionCall?.args) {
+    if (functionCall) {
       const args = functionCall.args as Record<string, unknown>;
 
       const isValidIntent = (value: unknown): value is IntentType => {
@@ -220,6 +144,9 @@ Game Over: ${state.isGameOver}`;
       emotionalTone: "neutral",
     };
   } catch (error) {
+    if (error instanceof ReplayMismatchError) {
+      throw error;
+    }
     console.error("[Router] Classification failed:", error);
     return {
       intent: "unknown",
@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+import { scenarioManifestSchema } from "../models/schemas";
+import type { GameState, ScenarioManifest } from "../models/types";
+
+export class ScenarioNotFoundError extends Error {
+  constructor(scenarioId: string) {
+    super(`Scenario "${scenarioId}" is not installed`);
+    this.name = "ScenarioNotFoundError";
+  }
+}
+
+let scenarios: Map<string, ScenarioManifest> | null = null;
+
+/**
+ * Reads every `*.json` manifest in SCENARIOS_DIR once. A manifest that does
+ * not parse is skipped with a warning so one broken pack cannot take the
+ * others down.
+ */
+const loadScenarios = () => {
+  if (scenarios) {
+    return scenarios;
+  }
+
+  scenarios = new Map();
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(config.scenariosDir).filter((file) => file.endsWith(".json"));
+  } catch (error) {
+    console.error(`[Scenarios] Cannot read ${config.scenariosDir}:`, error);
+  }
+
+  for (const file of files.sort()) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(config.scenariosDir, file), "utf8"));
+      const manifest = scenarioManifestSchema.parse(raw) as ScenarioManifest;
+      scenarios.set(manifest.id, manifest);
+    } catch (error) {
+      console.warn(`[Scenarios] Skipping invalid manifest ${file}:`, error);
+    }
+  }
+  console.log(`[Scenarios] Loaded ${scenarios.size} scenario(s): ${[...scenarios.keys()].join(", ")}`);
+  return scenarios;
+};
+
+export const getScenario = (scenarioId: string) => {
+  const scenario = loadScenarios().get(scenarioId);
+  if (!scenario) {
+    throw new ScenarioNotFoundError(scenarioId);
+  }
+  return scenario;
+};
+
+/** The scenario a session plays; sessions from before scenarios use the default. */
+export const scenarioFor = (state: GameState) =>
+  getScenario(state.scenarioId ?? config.defaultScenarioId);
+
+export const listScenarios = () =>
+  [...loadScenarios().values()].map((scenario) => ({
+    id: scenario.id,
+    title: scenario.title,
+    description: scenario.description,
+    endings: scenario.endings.map((ending) => ending.type),
+    isDefault: scenario.id === config.defaultScenarioId,
+    // Torments stay server-side; they are the game master's to reveal.
+    characters: (scenario.characters ?? []).map((character) => ({
+      id: character.id,
+      name: character.name,
+      backstory: character.backstory,
+      stats: character.stats,
+      inventory: character.inventory,
+      traits: character.traits.map(({ id, name, description }) => ({ id, name, description })),
+    })),
+  }));
@@ -0,0 +1,226 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config";
+import { GameState, SessionUsage, TurnJournalEntry, TurnSnapshot } from "../models/types";
+
+export interface SessionRecord {
+  state: GameState;
+  snapshots: TurnSnapshot[];
+  parentId?: string;
+  forkedAtTurn?: number;
+  children?: string[];
+  usage?: SessionUsage;
+}
+
+export interface StoredSession extends SessionRecord {
+  lastAccessedAt: number;
+}
+
+export interface JournalPage {
+  entries: TurnJournalEntry[];
+  total: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  lastAccessedAt: number;
+}
+
+/**
+ * `get` returns the access time from *before* the read and then refreshes it,
+ * so callers can decide whether the session had already gone idle.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<StoredSession | undefined>;
+  set(sessionId: string, record: SessionRecord): Promise<void>;
+  delete(sessionId: string): Promise<boolean>;
+  list(): Promise<SessionSummary[]>;
+  appendJournal(sessionId: string, entry: TurnJournalEntry): Promise<void>;
+  readJournal(sessionId: string, offset: number, limit: number): Promise<JournalPage>;
+}
+
+const SAFE_SESSION_ID = /^[A-Za-z0-9_-]{1,128}$/;
+const JOURNAL_SUFFIX = ".journal.jsonl";
+
+export const createMemorySessionStore = (): SessionStore => {
+  const sessions = new Map<string, StoredSession>();
+  const journals = new Map<string, TurnJournalEntry[]>();
+
+  return {
+    get: async (sessionId) => {
+      const entry = sessions.get(sessionId);
+      if (!entry) {
+        return undefined;
+      }
+      // Deep copies both ways, like the file store: a turn that throws halfway
+      // must not leave its half-applied state behind.
+      const snapshot = structuredClone(entry);
+      entry.lastAccessedAt = Date.now();
+      return snapshot;
+    },
+    set: async (sessionId, record) => {
+      sessions.set(sessionId, { ...structuredClone(record), lastAccessedAt: Date.now() });
+    },
+    delete: async (sessionId) => {
+      journals.delete(sessionId);
+      return sessions.delete(sessionId);
+    },
+    list: async () =>
+      Array.from(sessions, ([sessionId, entry]) => ({
+        sessionId,
+        lastAccessedAt: entry.lastAccessedAt,
+      })),
+    appendJournal: async (sessionId, entry) => {
+      const journal = journals.get(sessionId) ?? [];
+      journal.push(entry);
+      journals.set(sessionId, journal);
+    },
+    readJournal: async (sessionId, offset, limit) => {
+      const journal = journals.get(sessionId) ?? [];
+      return { entries: journal.slice(offset, offset + limit), total: journal.length };
+    },
+  };
+};
+
+// Files written before snapshots existed hold a bare GameState.
+const parseRecord = (raw: string): SessionRecord => {
+  const parsed = JSON.parse(raw);
+  if (parsed && typeof parsed === "object" && "state" in parsed) {
+    return { snapshots: [], ...parsed } as SessionRecord;
+  }
+  return { state: parsed as GameState, snapshots: [] };
+};
+
+// One JSON file per session. Nothing is cached in-process, so several backend
+// instances can share the same directory (e.g. a mounted volume). The file
+// mtime doubles as the last-access time. Journals are JSON Lines files next to
+// the session, appended to with O_APPEND so concurrent writers do not clobber
+// each other.
+export const createFileSessionStore = (directory: string): SessionStore => {
+  const root = path.resolve(directory);
+  let ready: Promise<void> | null = null;
+
+  const ensureDir = () => {
+    if (!ready) {
+      ready = fs.mkdir(root, { recursive: true }).then(() => undefined);
+    }
+    return ready;
+  };
+
+  const fileFor = (sessionId: string, suffix = ".json") => {
+    if (!SAFE_SESSION_ID.test(sessionId)) {
+      return null;
+    }
+    return path.join(root, `${sessionId}${suffix}`);
+  };
+
+  const readJournalLines = async (sessionId: string) => {
+    const file = fileFor(sessionId, JOURNAL_SUFFIX);
+    if (!file) {
+      return [];
+    }
+    try {
+      const raw = await fs.readFile(file, "utf8");
+      return raw.split("\n").filter((line) => line.trim());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  return {
+    get: async (sessionId) => {
+      const file = fileFor(sessionId);
+      if (!file) {
+        return undefined;
+      }
+      try {
+        const stat = await fs.stat(file);
+        const raw = await fs.readFile(file, "utf8");
+        const now = new Date();
+        await fs.utimes(file, now, now).catch(() => undefined);
+        return { ...parseRecord(raw), lastAccessedAt: stat.mtimeMs };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    set: async (sessionId, record) => {
+      const file = fileFor(sessionId);
+      if (!file) {
+        throw new Error(`Invalid session id: ${sessionId}`);
+      }
+      await ensureDir();
+      // Write-then-rename so a concurrent reader never sees a half-written file.
+      const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(record), "utf8");
+      await fs.rename(tmp, file);
+    },
+    delete: async (sessionId) => {
+      const file = fileFor(sessionId);
+      if (!file) {
+        return false;
+      }
+      await fs.rm(`${file.slice(0, -".json".length)}${JOURNAL_SUFFIX}`, { force: true });
+      try {
+        await fs.unlink(file);
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return false;
+        }
+        throw error;
+      }
+    },
+    list: async () => {
+      await ensureDir();
+      const names = await fs.readdir(root);
+      const summaries: SessionSummary[] = [];
+      for (const name of names) {
+        if (!name.endsWith(".json")) {
+          continue;
+        }
+        try {
+          const stat = await fs.stat(path.join(root, name));
+          summaries.push({
+            sessionId: name.slice(0, -".json".length),
+            lastAccessedAt: stat.mtimeMs,
+          });
+        } catch {
+          // Removed by another instance between readdir and stat.
+        }
+      }
+      return summaries;
+    },
+    appendJournal: async (sessionId, entry) => {
+      const file = fileFor(sessionId, JOURNAL_SUFFIX);
+      if (!file) {
+        throw new Error(`Invalid session id: ${sessionId}`);
+      }
+      await ensureDir();
+      await fs.appendFile(file, `${JSON.stringify(entry)}\n`, "utf8");
+    },
+    readJournal: async (sessionId, offset, limit) => {
+      const lines = await readJournalLines(sessionId);
+      return {
+        entries: lines
+          .slice(offset, offset + limit)
+          .map((line) => JSON.parse(line) as TurnJournalEntry),
+        total: lines.length,
+      };
+    },
+  };
+};
+
+export const createSessionStore = (): SessionStore => {
+  if (config.sessionStore === "file") {
+    console.log(`[SessionStore] Using file store at ${path.resolve(config.sessionStoreDir)}`);
+    return createFileSessionStore(config.sessionStoreDir);
+  }
+  return createMemorySessionStore();
+};
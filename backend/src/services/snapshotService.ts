@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import { config } from "../config";
+import { sessionSnapshotSchema } from "../models/schemas";
+import { GameState } from "../models/types";
+import { canonicalJson } from "../utils/canonicalJson";
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SessionSnapshot {
+  version: number;
+  exportedAt: string;
+  state: GameState;
+  signature: string;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+let fallbackSecret: string | null = null;
+
+const getSigningSecret = () => {
+  if (config.snapshotSecret) {
+    return config.snapshotSecret;
+  }
+  if (!fallbackSecret) {
+    console.warn(
+      "[Snapshot] SNAPSHOT_SECRET is not set. Using a per-process secret; saves will not load after a restart.",
+    );
+    fallbackSecret = crypto.randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+};
+
+// Key order is not preserved by zod parsing, so signatures are computed over
+// the canonical form.
+const sign = (payload: Omit<SessionSnapshot, "signature">) =>
+  crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(canonicalJson(payload))
+    .digest("hex");
+
+export const createSnapshot = (state: GameState): SessionSnapshot => {
+  const payload = {
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    state: JSON.parse(JSON.stringify(state)) as GameState,
+  };
+  return { ...payload, signature: sign(payload) };
+};
+
+export const restoreSnapshot = (input: unknown): GameState => {
+  const snapshot = sessionSnapshotSchema.parse(input);
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Unsupported snapshot version: ${snapshot.version}`);
+  }
+
+  const { signature, ...payload } = snapshot;
+  const expected = Buffer.from(sign(payload), "hex");
+  const actual = Buffer.from(signature, "hex");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new SnapshotError("Snapshot signature mismatch");
+  }
+
+  return payload.state;
+};
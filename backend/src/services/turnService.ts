@@ -0,0 +1,117 @@
+import type {
+  ChoiceCheckResult,
+  ChoiceOption,
+  ChoicePayload,
+  GameState,
+  ItemRequest,
+  RecalledPassage,
+  TurnEventListener,
+} from "../models/types";
+import { createSeed, createTurnRng } from "../utils/rng";
+import { traitCheckBonus } from "./characterService";
+import { difficultyRules } from "./difficultyService";
+import { pushHistoryEntry } from "./gameService";
+import { resolveRequestedItems } from "./itemService";
+import { compactHistory } from "./memoryService";
+import { processPlayerAction } from "./orchestratorService";
+import { runWithModelScope, type ReplaySource } from "./recordingService";
+import { trackUsage } from "./usageService";
+
+const normalizePendingChoices = (choices: ChoicePayload[]): ChoiceOption[] => {
+  return choices.map((choice) => {
+    if (typeof choice === "string") {
+      return { text: choice };
+    }
+    return {
+      text: choice.text,
+      type: choice.type,
+      check: choice.check,
+    };
+  });
+};
+
+export const resolveChoiceCheck = (
+  state: GameState,
+  action: string
+): ChoiceCheckResult | null => {
+  const pending = state.pendingChoices;
+  if (!pending || pending.length === 0) {
+    return null;
+  }
+
+  const normalizedAction = action.trim();
+  const matched = pending.find(
+    (choice) => choice.text.trim() === normalizedAction
+  );
+  const check = matched?.check;
+  if (!check) {
+    return null;
+  }
+
+  const current = state.stats[check.stat];
+  const required = check.required;
+  const ratio = required > 0 ? current / required : 1;
+  const chance = Math.max(
+    0,
+    Math.min(1, difficultyRules(state).checkChance(ratio) + traitCheckBonus(state, check.stat)),
+  );
+  const roll = createTurnRng(state, "choice_check").next();
+
+  return {
+    stat: check.stat,
+    required,
+    current,
+    chance,
+    roll,
+    success: roll <= chance,
+  };
+};
+
+/**
+ * Advances `state` by one player action. Shared by the game controller and
+ * the replay script, so it must not touch the session store; the controller
+ * passes in the passages it recalled from the journal. Requested items must
+ * be in the inventory, or ItemNotFoundError is thrown before the turn starts.
+ */
+export const resolveTurn = async (
+  sessionId: string,
+  state: GameState,
+  action: string,
+  options: {
+    replay?: ReplaySource;
+    onEvent?: TurnEventListener;
+    recalled?: RecalledPassage[];
+    items?: ItemRequest;
+  } = {},
+) => {
+  const items = resolveRequestedItems(state, options.items);
+  state.seed ??= createSeed();
+  state.turn = (state.turn ?? 0) + 1;
+
+  const choiceCheck = resolveChoiceCheck(state, action);
+
+  const { result: orchestratorResponse, usage } = await trackUsage(() =>
+    runWithModelScope(
+      sessionId,
+      state.turn,
+      async () => {
+        const response = await processPlayerAction(state, action, choiceCheck, {
+          onEvent: options.onEvent,
+          recalled: options.recalled,
+          items,
+        });
+        state.pendingChoices = normalizePendingChoices(response.choices);
+        pushHistoryEntry(
+          state,
+          { role: "user", parts: action },
+          { role: "model", parts: response.storyText },
+        );
+        await compactHistory(state);
+        return response;
+      },
+      options.replay,
+    ),
+  );
+
+  return { choiceCheck, orchestratorResponse, usage };
+};
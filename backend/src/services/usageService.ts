@@ -0,0 +1,133 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { config } from "../config";
+import type { UsageByRole, UsageRole, UsageTotals } from "../models/types";
+import type { LlmUsage } from "./llmProvider";
+import type { SessionRecord } from "./sessionStore";
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const USAGE_ROLES: UsageRole[] = ["router", "orchestrator", "final", "memory", "image"];
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  cachedTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  images: 0,
+  costUsd: 0,
+});
+
+export const createUsageByRole = () =>
+  Object.fromEntries(USAGE_ROLES.map((role) => [role, emptyTotals()])) as UsageByRole;
+
+const addTotals = (target: UsageTotals, source: UsageTotals) => {
+  for (const key of Object.keys(target) as Array<keyof UsageTotals>) {
+    target[key] += source[key];
+  }
+};
+
+export const sumUsage = (usage: UsageByRole) => {
+  const total = emptyTotals();
+  // Usage stored before a role existed simply lacks it.
+  USAGE_ROLES.forEach((role) => usage[role] && addTotals(total, usage[role]));
+  return total;
+};
+
+// Labels are "Router:classify", "Orchestrator:initial", "Orchestrator:loop-N",
+// "Orchestrator:final", "Memory:summarize" and the legacy "Story:generate".
+const roleForLabel = (label: string): UsageRole => {
+  if (label.startsWith("Router:")) return "router";
+  if (label === "Orchestrator:final") return "final";
+  if (label.startsWith("Memory:")) return "memory";
+  return "orchestrator";
+};
+
+// Cached input is billed at its own, lower rate.
+const tokenCost = (usage: LlmUsage) =>
+  ((usage.inputTokens - usage.cachedTokens) * config.priceInputPerMTok +
+    usage.cachedTokens * config.priceCachedInputPerMTok +
+    usage.outputTokens * config.priceOutputPerMTok) /
+  1_000_000;
+
+const scope = new AsyncLocalStorage<UsageByRole>();
+
+/** Runs `fn` and returns the model usage recorded while it ran. */
+export const trackUsage = async <T>(fn: () => Promise<T>) => {
+  const usage = createUsageByRole();
+  const result = await scope.run(usage, fn);
+  return { result, usage };
+};
+
+/** Adds one model call to the usage being tracked, if any. */
+export const recordTokenUsage = (label: string, usage: LlmUsage | undefined) => {
+  const current = scope.getStore();
+  if (!current || !usage) {
+    return;
+  }
+  const totals = current[roleForLabel(label)];
+  totals.calls += 1;
+  totals.inputTokens += usage.inputTokens;
+  totals.cachedTokens += usage.cachedTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.costUsd += tokenCost(usage);
+};
+
+export const recordImageUsage = (usage: UsageByRole) => {
+  usage.image.calls += 1;
+  usage.image.images += 1;
+  usage.image.costUsd += config.pricePerImage;
+};
+
+export const addSessionUsage = (session: SessionRecord, turn: number, usage: UsageByRole) => {
+  session.usage ??= { byRole: createUsageByRole(), turns: [] };
+  for (const role of USAGE_ROLES) {
+    addTotals((session.usage.byRole[role] ??= emptyTotals()), usage[role]);
+  }
+  session.usage.turns.push({ turn, byRole: usage });
+};
+
+const sessionTotals = (session: SessionRecord) =>
+  sumUsage(session.usage?.byRole ?? createUsageByRole());
+
+const remaining = (budget: number, used: number) =>
+  budget > 0 ? Math.max(0, budget - used) : null;
+
+/** Rejects a new turn once the session has used up its token budget. */
+export const assertTokenBudget = (session: SessionRecord) => {
+  const used = sessionTotals(session).totalTokens;
+  if (remaining(config.sessionTokenBudget, used) === 0) {
+    throw new BudgetExceededError(
+      `Session used ${used} of its ${config.sessionTokenBudget} token budget`,
+    );
+  }
+};
+
+export const hasImageBudget = (session: SessionRecord) =>
+  remaining(config.sessionImageBudget, sessionTotals(session).images) !== 0;
+
+export const describeSessionUsage = (sessionId: string, session: SessionRecord) => {
+  const total = sessionTotals(session);
+  return {
+    sessionId,
+    total,
+    byRole: session.usage?.byRole ?? createUsageByRole(),
+    budget: {
+      tokens: config.sessionTokenBudget || null,
+      images: config.sessionImageBudget || null,
+      remainingTokens: remaining(config.sessionTokenBudget, total.totalTokens),
+      remainingImages: remaining(config.sessionImageBudget, total.images),
+    },
+    turns: (session.usage?.turns ?? []).map((entry) => ({
+      turn: entry.turn,
+      total: sumUsage(entry.byRole),
+      byRole: entry.byRole,
+    })),
+  };
+};
@@ -43,27 +43,91 @@ Use this when:
 
 export const inventoryActionTool: FunctionDeclaration = {
   name: "inventory_action",
-  description: `Manages player inventory - add or remove items.
+  description: `Manages player inventory - add, remove, consume, damage or uncurse items.
 Use when:
-- Player finds/picks up an item
-- Player uses/consumes an item
-- Player loses/drops an item
-- Item is destroyed or taken away`,
+- Player finds/picks up an item ('add'; stackable items of the same name merge)
+- Player uses/consumes an item ('consume' spends a charge or one unit of a stack)
+- Player loses/drops an item ('remove', optionally only part of a stack)
+- Item is hit, worn or destroyed ('damage'; it breaks at 0 durability)
+- A curse is lifted ('uncurse')
+Cursed and bound items cannot be removed. The player can only carry a limited weight.`,
   parameters: {
     type: Type.OBJECT,
     properties: {
       action: {
         type: Type.STRING,
-        description: "Action type: 'add' to give item, 'remove' to take item",
+        description: "Action type: 'add', 'remove', 'consume', 'damage' or 'uncurse'",
       },
       itemName: {
         type: Type.STRING,
         description: "Name of the item in English",
       },
+      itemId: {
+        type: Type.STRING,
+        description: "Inventory id of the item, e.g. 'i3fa2c1' (preferred over itemName for everything but 'add')",
+      },
+      quantity: {
+        type: Type.NUMBER,
+        description: "Units to add, remove or consume. 'remove' defaults to the whole stack, the others to 1",
+      },
+      amount: {
+        type: Type.NUMBER,
+        description: "Durability points lost (only for 'damage')",
+      },
       itemDescription: {
         type: Type.STRING,
         description: "Brief description of the item (only for 'add' action)",
       },
+      useHp: {
+        type: Type.NUMBER,
+        description: "HP change applied whenever the player uses the item, e.g. 20 for a ration (only for 'add' action)",
+      },
+      useSanity: {
+        type: Type.NUMBER,
+        description: "Sanity change applied on use, negative for cursed items (only for 'add' action)",
+      },
+      unlocks: {
+        type: Type.STRING,
+        description: "snake_case target a key opens, e.g. 'cell_door'; using it adds the tag 'unlocked_<target>' (only for 'add' action)",
+      },
+      consumable: {
+        type: Type.BOOLEAN,
+        description: "True if the item is used up after one use (only for 'add' action)",
+      },
+      cures: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Status effects the item cures on use, e.g. ['bleeding'] for a bandage (only for 'add' action)",
+      },
+      stackable: {
+        type: Type.BOOLEAN,
+        description: "True for items carried in stacks, like bullets or rations (only for 'add' action)",
+      },
+      charges: {
+        type: Type.NUMBER,
+        description: "Number of uses before the item is gone (only for 'add' action)",
+      },
+      durability: {
+        type: Type.NUMBER,
+        description: "Condition from 1 to 100 for items that can wear out or break (only for 'add' action)",
+      },
+      cursed: {
+        type: Type.BOOLEAN,
+        description: "True if the item cannot be removed until uncursed (only for 'add' action)",
+      },
+      bound: {
+        type: Type.BOOLEAN,
+        description: "True if the item can never be removed, only consumed or broken (only for 'add' action)",
+      },
+      weight: {
+        type: Type.NUMBER,
+        description: "Weight of one unit; 1 if omitted, 0 for trinkets (only for 'add' action)",
+      },
+      tags: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "snake_case item tags, e.g. ['weapon', 'sharp'] (only for 'add' action)",
+      },
       reason: {
         type: Type.STRING,
         description: "Why this inventory change happened",
@@ -73,11 +137,104 @@ Use when:
   },
 };
 
+export const combineItemsTool: FunctionDeclaration = {
+  name: "combine_items",
+  description: `Combines 2 or 3 carried items into a new one, e.g. tying a cable to a pipe.
+Known recipes produce their own result; for anything else give resultName (and resultDescription) if the combination plausibly works.
+One unit of each input is used up. Cursed items cannot be combined.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      itemIds: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Inventory ids of the items to combine, e.g. ['frayed_cable', 'i3fa2c1']",
+      },
+      resultName: {
+        type: Type.STRING,
+        description: "Name of the new item in English (ignored when a known recipe matches)",
+      },
+      resultDescription: {
+        type: Type.STRING,
+        description: "Brief description of the new item",
+      },
+      reason: {
+        type: Type.STRING,
+        description: "What the player did to combine them",
+      },
+    },
+    required: ["itemIds", "reason"],
+  },
+};
+
+export const applyEffectTool: FunctionDeclaration = {
+  name: "apply_effect",
+  description: `Applies a lasting status effect that the server ticks at the start of every turn.
+Use for conditions with ongoing consequences:
+- Bleeding, poisoned, burning, infected, freezing (HP each turn)
+- Terrified, hallucinating (sanity each turn)
+- Regenerating, calm (recovery each turn)
+Applying an active effect again adds stacks. Use add_tag for flags without per-turn effects.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      effectId: {
+        type: Type.STRING,
+        description: "Effect name in snake_case (e.g., 'bleeding', 'poisoned')",
+      },
+      source: {
+        type: Type.STRING,
+        description: "What caused it (e.g., 'rat bite')",
+      },
+      duration: {
+        type: Type.NUMBER,
+        description: "Turns it lasts; omit or 0 to last until cured",
+      },
+      stacks: {
+        type: Type.NUMBER,
+        description: "Intensity to add, 1 by default (max 5)",
+      },
+      hpPerTurn: {
+        type: Type.NUMBER,
+        description: "HP change per turn per stack; known effects have defaults (bleeding -3)",
+      },
+      sanityPerTurn: {
+        type: Type.NUMBER,
+        description: "Sanity change per turn per stack; known effects have defaults (terrified -3)",
+      },
+    },
+    required: ["effectId", "source"],
+  },
+};
+
+export const cureEffectTool: FunctionDeclaration = {
+  name: "cure_effect",
+  description: `Ends or eases an active status effect: a wound is bandaged, an antidote works, the fire is put out.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      effectId: {
+        type: Type.STRING,
+        description: "Id of the active effect, as shown in Status Effects",
+      },
+      stacks: {
+        type: Type.NUMBER,
+        description: "Stacks to remove; omit to cure it completely",
+      },
+      reason: {
+        type: Type.STRING,
+        description: "How it was treated",
+      },
+    },
+    required: ["effectId", "reason"],
+  },
+};
+
 export const addTagTool: FunctionDeclaration = {
   name: "add_tag",
   description: `Adds a narrative tag to track story state and player conditions.
 Use for:
-- Status effects (poisoned, bleeding, cursed)
+- Conditions without per-turn effects (cursed, marked); use apply_effect for bleeding, poison and the like
 - Story flags (met_survivor, found_secret)
 - Location markers (in_darkness, underwater)
 - Relationship states (am_angry, am_amused)`,
@@ -123,21 +280,13 @@ Use when:
 export const triggerGameOverTool: FunctionDeclaration = {
   name: "trigger_game_over",
   description: `Triggers game over state. Use ONLY when player should die or game should end.
-Ending types:
-- death_hp: Player HP reached 0
-- death_sanity: Player went insane (sanity 0)
-- death_suicide: Player killed themselves
-- death_am: AM directly killed the player
-- death_environment: Environmental death
-- escape: Rare - player somehow escaped (almost impossible)
-- merge: Player accepted AM and merged with the machine
-- sacrifice: Player sacrificed themselves for something meaningful`,
+The allowed ending types depend on the scenario and are listed under ENDINGS in the system prompt.`,
   parameters: {
     type: Type.OBJECT,
     properties: {
       endingType: {
         type: Type.STRING,
-        description: "Type of game ending: death_hp, death_sanity, death_suicide, death_am, death_environment, escape, merge, or sacrifice",
+        description: "Type of game ending, one of the types listed under ENDINGS in the system prompt",
       },
       deathDescription: {
         type: Type.STRING,
@@ -190,11 +339,172 @@ Only change environment dramatically when the story explicitly moves to a comple
   },
 };
 
+export const rememberFactTool: FunctionDeclaration = {
+  name: "remember_fact",
+  description: `Pins a short fact so it is shown in the game state every turn, however long ago it happened.
+Use for things that must not be forgotten:
+- Secrets and history of NPCs beyond what spawn_npc tracks (npc)
+- Promises, bargains and threats AM made (promise)
+- Clues, codes, riddles, locked doors (clue)
+- Lasting injuries and scars (injury)
+Keep each fact to one short sentence. Do not pin what tags or inventory already track.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      fact: {
+        type: Type.STRING,
+        description: "The fact in one short English sentence (max 200 characters)",
+      },
+      category: {
+        type: Type.STRING,
+        description: "Fact category: npc, promise, clue, injury, or other",
+      },
+      reason: {
+        type: Type.STRING,
+        description: "Why this fact matters later",
+      },
+    },
+    required: ["fact", "category", "reason"],
+  },
+};
+
+export const forgetFactTool: FunctionDeclaration = {
+  name: "forget_fact",
+  description: `Unpins a fact that no longer matters: the NPC is gone, the promise was kept or broken, the clue was used, the injury healed.
+Refer to the fact by the id shown in Pinned Memories.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      factId: {
+        type: Type.STRING,
+        description: "Id of the pinned fact, as shown in Pinned Memories",
+      },
+      reason: {
+        type: Type.STRING,
+        description: "Why the fact no longer matters",
+      },
+    },
+    required: ["factId", "reason"],
+  },
+};
+
+export const spawnNpcTool: FunctionDeclaration = {
+  name: "spawn_npc",
+  description: `Introduces an NPC so they persist across turns: another victim, a ghost, a manifestation of the game master.
+Call it the first time a named or recurring character appears. Known NPCs are shown in the game state every turn; stay consistent with them.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      name: {
+        type: Type.STRING,
+        description: "Name the player knows them by (e.g., 'The Weeping Man')",
+      },
+      description: {
+        type: Type.STRING,
+        description: "Who they are and what they want, in one or two English sentences",
+      },
+      kind: {
+        type: Type.STRING,
+        description: "victim, manifestation, or other",
+      },
+      disposition: {
+        type: Type.STRING,
+        description: "Attitude toward the player: hostile, wary, neutral, or friendly",
+      },
+      trust: {
+        type: Type.NUMBER,
+        description: "Starting trust in the player from -10 to 10 (0 if omitted)",
+      },
+      location: {
+        type: Type.STRING,
+        description: "Where they are; defaults to the current location",
+      },
+      visualAnchors: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Fixed visual details for scene images (e.g., ['burn-scarred hands', 'grey hospital gown']), at most 5",
+      },
+    },
+    required: ["name", "description", "kind", "disposition"],
+  },
+};
+
+export const updateNpcTool: FunctionDeclaration = {
+  name: "update_npc",
+  description: `Updates a known NPC when they change: trust won or lost, a new attitude, a move, a death, a new visible wound.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      npcId: {
+        type: Type.STRING,
+        description: "Id of the NPC, as shown in Known NPCs",
+      },
+      description: {
+        type: Type.STRING,
+        description: "Replacement description",
+      },
+      disposition: {
+        type: Type.STRING,
+        description: "New attitude: hostile, wary, neutral, or friendly",
+      },
+      trustDelta: {
+        type: Type.NUMBER,
+        description: "Trust change, usually -3 to +3 (trust stays within -10 to 10)",
+      },
+      alive: {
+        type: Type.BOOLEAN,
+        description: "false when the NPC dies",
+      },
+      location: {
+        type: Type.STRING,
+        description: "Where they are now",
+      },
+      visualAnchors: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "New visual details to add",
+      },
+      reason: {
+        type: Type.STRING,
+        description: "What happened",
+      },
+    },
+    required: ["npcId", "reason"],
+  },
+};
+
+export const removeNpcTool: FunctionDeclaration = {
+  name: "remove_npc",
+  description: `Removes an NPC who has left the story for good: escaped, dissolved, forgotten by the world. A dead NPC whose body or memory still matters should be updated with alive=false instead.`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      npcId: {
+        type: Type.STRING,
+        description: "Id of the NPC, as shown in Known NPCs",
+      },
+      reason: {
+        type: Type.STRING,
+        description: "Why they are gone",
+      },
+    },
+    required: ["npcId", "reason"],
+  },
+};
+
 export const allGameTools: FunctionDeclaration[] = [
   updatePlayerStatsTool,
   inventoryActionTool,
+  combineItemsTool,
+  applyEffectTool,
+  cureEffectTool,
   addTagTool,
   removeTagTool,
   triggerGameOverTool,
   generateSceneImageTool,
+  rememberFactTool,
+  forgetFactTool,
+  spawnNpcTool,
+  updateNpcTool,
+  removeNpcTool,
 ];
@@ -1,5 +1,20 @@
-import { v4 as uuidv4 } from "uuid";
-import { GameState, InventoryItem } from "../models/types";
+import {
+  FactCategory,
+  GameState,
+  InventoryItem,
+  ItemUseEffect,
+  Npc,
+  NpcDisposition,
+  NpcKind,
+  PinnedFact,
+  StatusEffect,
+} from "../models/types";
+import { difficultyRules } from "../services/difficultyService";
+import { KNOWN_EFFECTS, MAX_EFFECT_STACKS, describePerTurn } from "../services/effectService";
+import { inventoryLoad, itemWeight } from "../services/itemService";
+import { findRecipe } from "../services/recipeService";
+import { scenarioFor } from "../services/scenarioService";
+import { createTurnRng, Rng } from "../utils/rng";
 
 export interface ToolResult {
   success: boolean;
@@ -20,6 +35,7 @@ export interface ExecutionContext {
   imagePrompt: string | null;
   gameOverTriggered: boolean;
   gameOverDescription: string | null;
+  rng: Rng;
 }
 
 const clamp = (value: number, min: number, max: number) => 
@@ -46,9 +62,15 @@ export const executeUpdatePlayerStats = (
   const changes: string[] = [];
 
   if (typeof args.hp === "number") {
+    const { maxHpLoss, maxHpGain } = difficultyRules(state);
+    const delta = clamp(args.hp, -maxHpLoss, maxHpGain);
     const oldHp = state.stats.hp;
-    state.stats.hp = clamp(state.stats.hp + args.hp, 0, 100);
-    changes.push(`HP: ${oldHp} -> ${state.stats.hp}`);
+    state.stats.hp = clamp(state.stats.hp + delta, 0, 100);
+    changes.push(
+      delta === args.hp
+        ? `HP: ${oldHp} -> ${state.stats.hp}`
+        : `HP: ${oldHp} -> ${state.stats.hp} (limited from ${args.hp} to ${delta} by difficulty)`,
+    );
   }
 
   if (typeof args.sanity === "number") {
@@ -84,6 +106,164 @@ export const executeUpdatePlayerStats = (
   };
 };
 
+const UNLOCK_TARGET = /^[a-z0-9_]+$/;
+const EFFECT_ID = /^[a-z0-9_]+$/;
+const INVENTORY_ACTIONS = ["add", "remove", "consume", "damage", "uncurse"];
+
+/** The `use` effect of an added item from the flat tool arguments, if any. */
+const readItemUseEffect = (args: Record<string, unknown>): ItemUseEffect | undefined => {
+  const use: ItemUseEffect = {};
+  if (typeof args.useHp === "number" && args.useHp !== 0) {
+    use.hp = Math.round(args.useHp);
+  }
+  if (typeof args.useSanity === "number" && args.useSanity !== 0) {
+    use.sanity = Math.round(args.useSanity);
+  }
+  if (typeof args.unlocks === "string" && UNLOCK_TARGET.test(args.unlocks.trim())) {
+    use.unlocks = args.unlocks.trim();
+  }
+  if (args.consumable === true) {
+    use.consumable = true;
+  }
+  if (Array.isArray(args.cures)) {
+    const cures = args.cures.filter(
+      (effectId): effectId is string => typeof effectId === "string" && EFFECT_ID.test(effectId)
+    );
+    if (cures.length > 0) {
+      use.cures = cures;
+    }
+  }
+  return Object.keys(use).length > 0 ? use : undefined;
+};
+
+const readCount = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+
+/** The item's properties from the tool arguments of an 'add'. */
+const readItemProperties = (args: Record<string, unknown>): Partial<InventoryItem> => {
+  const properties: Partial<InventoryItem> = {};
+  if (typeof args.charges === "number" && args.charges >= 1) {
+    properties.charges = Math.floor(args.charges);
+  }
+  // Charges belong to a single unit, so a charged item never stacks.
+  if (args.stackable === true && properties.charges === undefined) {
+    properties.stackable = true;
+  }
+  if (typeof args.durability === "number") {
+    properties.durability = clamp(Math.round(args.durability), 1, 100);
+  }
+  if (args.cursed === true) {
+    properties.cursed = true;
+  }
+  if (args.bound === true) {
+    properties.bound = true;
+  }
+  if (typeof args.weight === "number" && args.weight >= 0) {
+    properties.weight = args.weight;
+  }
+  if (Array.isArray(args.tags)) {
+    const tags = args.tags
+      .filter((tag): tag is string => typeof tag === "string" && Boolean(tag.trim()))
+      .map((tag) => tag.trim());
+    if (tags.length > 0) {
+      properties.tags = tags;
+    }
+  }
+  return properties;
+};
+
+/** Index of the item an action targets: by `itemId` when given, else by exact name. */
+const findItemIndex = (state: GameState, args: Record<string, unknown>, itemName: string) => {
+  const itemId = typeof args.itemId === "string" ? args.itemId.trim().replace(/^\[|\]$/g, "") : "";
+  return itemId
+    ? state.inventory.findIndex((item) => item.id === itemId)
+    : state.inventory.findIndex((item) => item.name.toLowerCase() === itemName.toLowerCase());
+};
+
+/** Takes `count` units off the entry at `index`, dropping the entry once it is empty. */
+const removeUnits = (state: GameState, index: number, count: number) => {
+  const item = state.inventory[index];
+  const remaining = (item.quantity ?? 1) - count;
+  if (remaining <= 0) {
+    state.inventory.splice(index, 1);
+    return 0;
+  }
+  item.quantity = remaining;
+  return remaining;
+};
+
+/** The carried stack a stackable item of `name` merges into, if any. */
+const findStack = (state: GameState, name: string, stackable: boolean | undefined) =>
+  stackable
+    ? state.inventory.find(
+        (item) =>
+          item.stackable &&
+          item.charges === undefined &&
+          item.name.toLowerCase() === name.toLowerCase()
+      )
+    : undefined;
+
+const addInventoryItem = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>,
+  itemName: string,
+  reason: string
+): ToolResult => {
+  const { state } = ctx;
+  const quantity = readCount(args.quantity, 1);
+  const properties = readItemProperties(args);
+  const use = readItemUseEffect(args);
+
+  const { weight, capacity } = inventoryLoad(state);
+  const added = (properties.weight ?? 1) * quantity;
+  if (capacity > 0 && weight + added > capacity) {
+    return {
+      success: false,
+      message: `Cannot carry "${itemName}": load would be ${weight + added}/${capacity}. Remove or consume something first.`,
+      data: { load: weight, capacity },
+    };
+  }
+
+  const stack = findStack(state, itemName, properties.stackable);
+  if (stack) {
+    stack.quantity = (stack.quantity ?? 1) + quantity;
+    return {
+      success: true,
+      message: `Stacked ${quantity} "${stack.name}" [${stack.id}]: now x${stack.quantity}. Reason: ${reason}`,
+      data: { item: stack, inventorySize: state.inventory.length },
+    };
+  }
+
+  const createItem = (unitQuantity: number): InventoryItem => ({
+    id: `i${ctx.rng.uuid().slice(0, 6)}`,
+    name: itemName,
+    desc: (args.itemDescription as string) || "",
+    ...(use ? { use } : {}),
+    ...(unitQuantity > 1 ? { quantity: unitQuantity } : {}),
+    ...properties,
+  });
+
+  // Each charged unit spends its own charges, so it gets its own entry.
+  if (properties.charges !== undefined && quantity > 1) {
+    const items = Array.from({ length: quantity }, () => createItem(1));
+    state.inventory.push(...items);
+    return {
+      success: true,
+      message: `Item "${itemName}" x${quantity} added to inventory as ${items.map((item) => `[${item.id}]`).join(", ")}. Reason: ${reason}. Total items: ${state.inventory.length}`,
+      data: { items, inventorySize: state.inventory.length },
+    };
+  }
+
+  const newItem = createItem(quantity);
+  state.inventory.push(newItem);
+
+  return {
+    success: true,
+    message: `Item "${itemName}"${quantity > 1 ? ` x${quantity}` : ""} added to inventory as [${newItem.id}]. Reason: ${reason}. Total items: ${state.inventory.length}`,
+    data: { item: newItem, inventorySize: state.inventory.length },
+  };
+};
+
 export const executeInventoryAction = (
   ctx: ExecutionContext,
   args: Record<string, unknown>
@@ -93,7 +273,7 @@ export const executeInventoryAction = (
   if (typeof args.action !== "string" || !args.action.trim()) {
     return {
       success: false,
-      message: "Invalid or missing 'action' parameter. Must be a non-empty, non-whitespace string ('add' or 'remove').",
+      message: "Invalid or missing 'action' parameter. Must be a non-empty, non-whitespace string ('add', 'remove', 'consume', 'damage' or 'uncurse').",
     };
   }
   
@@ -110,44 +290,331 @@ export const executeInventoryAction = (
   const reason = args.reason as string || "unknown";
 
   if (action === "add") {
-    const newItem: InventoryItem = {
-      id: uuidv4(),
-      name: itemName,
-      desc: (args.itemDescription as string) || "",
+    return addInventoryItem(ctx, args, itemName, reason);
+  }
+
+  if (!INVENTORY_ACTIONS.includes(action)) {
+    return {
+      success: false,
+      message: `Unknown inventory action: ${action}. Valid actions are ${INVENTORY_ACTIONS.map((name) => `'${name}'`).join(", ")}.`,
     };
-    state.inventory.push(newItem);
+  }
 
+  const index = findItemIndex(state, args, itemName);
+  if (index === -1) {
     return {
-      success: true,
-      message: `Item "${itemName}" added to inventory. Reason: ${reason}. Total items: ${state.inventory.length}`,
-      data: { item: newItem, inventorySize: state.inventory.length },
+      success: false,
+      message: `Item "${itemName}" not found in inventory. Cannot ${action}.`,
+      data: { inventory: state.inventory.map((i) => `[${i.id}] ${i.name}`) },
     };
   }
+  const item = state.inventory[index];
 
   if (action === "remove") {
-    const index = state.inventory.findIndex(
-      (item) => item.name.toLowerCase() === itemName.toLowerCase()
-    );
+    if (item.cursed || item.bound) {
+      return {
+        success: false,
+        message: item.cursed
+          ? `"${item.name}" is cursed and will not leave the player. Lift the curse with 'uncurse' first.`
+          : `"${item.name}" is bound to the player and cannot be removed.`,
+        data: { item },
+      };
+    }
+    const count = readCount(args.quantity, item.quantity ?? 1);
+    const remaining = removeUnits(state, index, count);
+    return {
+      success: true,
+      message: remaining > 0
+        ? `Removed ${count} "${item.name}", ${remaining} left. Reason: ${reason}`
+        : `Item "${item.name}" removed from inventory. Reason: ${reason}`,
+      data: { removedItem: item, remaining, inventorySize: state.inventory.length },
+    };
+  }
+
+  if (action === "consume") {
+    if (item.charges !== undefined) {
+      item.charges -= 1;
+      if (item.charges > 0) {
+        return {
+          success: true,
+          message: `Used a charge of "${item.name}", ${item.charges} left. Reason: ${reason}`,
+          data: { item },
+        };
+      }
+      state.inventory.splice(index, 1);
+      return {
+        success: true,
+        message: `"${item.name}" used its last charge and is gone. Reason: ${reason}`,
+        data: { removedItem: item, inventorySize: state.inventory.length },
+      };
+    }
+    const count = Math.min(readCount(args.quantity, 1), item.quantity ?? 1);
+    const remaining = removeUnits(state, index, count);
+    return {
+      success: true,
+      message: remaining > 0
+        ? `Consumed ${count} "${item.name}", ${remaining} left. Reason: ${reason}`
+        : `"${item.name}" used up and removed from inventory. Reason: ${reason}`,
+      data: { item, remaining, inventorySize: state.inventory.length },
+    };
+  }
 
-    if (index === -1) {
+  if (action === "damage") {
+    const amount = readCount(args.amount, 0);
+    if (amount === 0) {
       return {
         success: false,
-        message: `Item "${itemName}" not found in inventory. Cannot remove.`,
-        data: { inventory: state.inventory.map((i) => i.name) },
+        message: "Invalid or missing 'amount' parameter. Must be a positive number of durability points.",
+      };
+    }
+    const before = item.durability ?? 100;
+    item.durability = before - amount;
+    // Breaking ends even cursed and bound items.
+    if (item.durability <= 0) {
+      state.inventory.splice(index, 1);
+      return {
+        success: true,
+        message: `"${item.name}" broke and is gone. Reason: ${reason}`,
+        data: { removedItem: item, inventorySize: state.inventory.length },
       };
     }
+    return {
+      success: true,
+      message: `"${item.name}" damaged: durability ${before} -> ${item.durability}. Reason: ${reason}`,
+      data: { item },
+    };
+  }
+
+  if (!item.cursed) {
+    return {
+      success: true,
+      message: `"${item.name}" is not cursed. No change needed.`,
+      data: { item },
+    };
+  }
+  delete item.cursed;
+  return {
+    success: true,
+    message: `The curse on "${item.name}" is lifted. Reason: ${reason}`,
+    data: { item },
+  };
+};
+
+/**
+ * Combines carried items into a new one: the recipe's output when the
+ * inputs match a known recipe, otherwise the model's `resultName`. Every
+ * input is checked before anything changes, so the inventory is either left
+ * alone or loses one unit of each input and gains the output.
+ */
+export const executeCombineItems = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+  const readRefs = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((ref): ref is string => typeof ref === "string" && Boolean(ref.trim()))
+      : [];
+  const ids = readRefs(args.itemIds);
+  const refs = ids.length > 0 ? ids : readRefs(args.itemNames);
+
+  if (refs.length < 2 || refs.length > 3) {
+    return {
+      success: false,
+      message: "Invalid 'itemIds' parameter. Give the ids of 2 or 3 carried items to combine.",
+    };
+  }
+
+  const inputs: InventoryItem[] = [];
+  for (const ref of refs) {
+    const index = ids.length > 0
+      ? findItemIndex(state, { itemId: ref }, ref)
+      : findItemIndex(state, {}, ref.trim());
+    const item = state.inventory[index];
+    if (!item) {
+      return {
+        success: false,
+        message: `Item "${ref}" not found in inventory. Cannot combine.`,
+        data: { inventory: state.inventory.map((i) => `[${i.id}] ${i.name}`) },
+      };
+    }
+    if (item.cursed || item.bound) {
+      return {
+        success: false,
+        message: item.cursed
+          ? `"${item.name}" is cursed and will not leave the player. It cannot be combined.`
+          : `"${item.name}" is bound to the player and cannot be combined.`,
+        data: { item },
+      };
+    }
+    const needed = inputs.filter((input) => input === item).length + 1;
+    if (needed > (item.quantity ?? 1)) {
+      return {
+        success: false,
+        message: `Only ${item.quantity ?? 1} "${item.name}" carried. Cannot combine ${needed}.`,
+      };
+    }
+    inputs.push(item);
+  }
+
+  const names = inputs.map((item) => item.name);
+  const recipe = findRecipe(state, names);
+  const resultName = typeof args.resultName === "string" ? args.resultName.trim() : "";
+  if (!recipe && !resultName) {
+    return {
+      success: false,
+      message: `No known recipe for ${names.join(" + ")}. Give a resultName to combine them anyway, or narrate why it fails.`,
+    };
+  }
+
+  const output: Omit<InventoryItem, "id"> = recipe
+    ? { ...recipe.output }
+    : {
+        name: resultName,
+        desc: (args.resultDescription as string) || "",
+        ...readItemProperties(args),
+      };
+
+  const { weight, capacity } = inventoryLoad(state);
+  const after =
+    weight - inputs.reduce((sum, item) => sum + (item.weight ?? 1), 0) + itemWeight(output);
+  if (capacity > 0 && after > capacity) {
+    return {
+      success: false,
+      message: `Cannot carry "${output.name}": load would be ${after}/${capacity}. Remove or consume something first.`,
+      data: { load: weight, capacity },
+    };
+  }
+
+  for (const item of inputs) {
+    removeUnits(state, state.inventory.indexOf(item), 1);
+  }
+  const stack = findStack(state, output.name, output.stackable);
+  let result: InventoryItem;
+  if (stack) {
+    stack.quantity = (stack.quantity ?? 1) + (output.quantity ?? 1);
+    result = stack;
+  } else {
+    result = { id: `i${ctx.rng.uuid().slice(0, 6)}`, ...output };
+    state.inventory.push(result);
+  }
+
+  const reason = (args.reason as string) || "unknown";
+  return {
+    success: true,
+    message: `Combined ${names.join(" + ")} into "${result.name}" [${result.id}]${recipe ? ` (recipe ${recipe.id})` : ""}. Reason: ${reason}`,
+    data: { inputs, output: result, recipeId: recipe?.id ?? null },
+  };
+};
+
+export const executeApplyEffect = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+
+  const idValidation = validateNonEmptyString(args.effectId, "effectId");
+  if (!idValidation.valid) {
+    return {
+      success: false,
+      message: idValidation.error,
+    };
+  }
+  const effectId = idValidation.trimmed.toLowerCase();
+  if (!EFFECT_ID.test(effectId)) {
+    return {
+      success: false,
+      message: `Invalid effectId "${effectId}". Use snake_case, e.g. 'bleeding'.`,
+    };
+  }
+
+  const source = (args.source as string) || "unknown";
+  const stacks = readCount(args.stacks, 1);
+  // 0 or no duration lasts until cure_effect.
+  const turnsLeft = readCount(args.duration, 0) || null;
+  const perTurn = {
+    ...(typeof args.hpPerTurn === "number" && args.hpPerTurn !== 0
+      ? { hp: Math.round(args.hpPerTurn) }
+      : {}),
+    ...(typeof args.sanityPerTurn === "number" && args.sanityPerTurn !== 0
+      ? { sanity: Math.round(args.sanityPerTurn) }
+      : {}),
+  };
+  const effects = state.effects ?? [];
+
+  const existing = effects.find((effect) => effect.id === effectId);
+  if (existing) {
+    existing.stacks = Math.min(MAX_EFFECT_STACKS, existing.stacks + stacks);
+    existing.turnsLeft =
+      existing.turnsLeft === null || turnsLeft === null
+        ? null
+        : Math.max(existing.turnsLeft, turnsLeft);
+    return {
+      success: true,
+      message: `Effect "${effectId}" intensified to x${existing.stacks}. Source: ${source}`,
+      data: { effect: existing },
+    };
+  }
+
+  const effect: StatusEffect = {
+    id: effectId,
+    source,
+    turnsLeft,
+    stacks: Math.min(MAX_EFFECT_STACKS, stacks),
+    perTurn: Object.keys(perTurn).length > 0 ? perTurn : KNOWN_EFFECTS[effectId] ?? {},
+    appliedTurn: state.turn ?? 0,
+  };
+  state.effects = [...effects, effect];
+
+  return {
+    success: true,
+    message: `Effect "${effectId}" applied (${describePerTurn(effect.perTurn)} per turn, ${turnsLeft === null ? "until cured" : `${turnsLeft} turn(s)`}). Source: ${source}`,
+    data: { effect },
+  };
+};
+
+export const executeCureEffect = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
 
-    const removed = state.inventory.splice(index, 1)[0];
+  const idValidation = validateNonEmptyString(args.effectId, "effectId");
+  if (!idValidation.valid) {
+    return {
+      success: false,
+      message: idValidation.error,
+    };
+  }
+
+  const effectId = idValidation.trimmed.toLowerCase();
+  const reason = (args.reason as string) || "unknown";
+  const effects = state.effects ?? [];
+  const effect = effects.find((entry) => entry.id === effectId);
+
+  if (!effect) {
+    return {
+      success: false,
+      message: `Effect "${effectId}" is not active. Cannot cure.`,
+      data: { effects: effects.map((entry) => entry.id) },
+    };
+  }
+
+  const stacks = readCount(args.stacks, effect.stacks);
+  if (stacks < effect.stacks) {
+    effect.stacks -= stacks;
     return {
       success: true,
-      message: `Item "${removed.name}" removed from inventory. Reason: ${reason}`,
-      data: { removedItem: removed, inventorySize: state.inventory.length },
+      message: `Effect "${effectId}" eased to x${effect.stacks}. Reason: ${reason}`,
+      data: { effect },
     };
   }
 
+  state.effects = effects.filter((entry) => entry !== effect);
   return {
-    success: false,
-    message: `Unknown inventory action: ${action}. Valid actions are 'add' or 'remove'.`,
+    success: true,
+    message: `Effect "${effectId}" cured. Reason: ${reason}`,
+    data: { curedEffect: effect },
   };
 };
 
@@ -243,6 +710,14 @@ export const executeTriggerGameOver = (
   const endingType = endingTypeValidation.trimmed;
   const deathDescription = descValidation.trimmed;
 
+  const endings = scenarioFor(ctx.state).endings.map((ending) => ending.type);
+  if (!endings.includes(endingType)) {
+    return {
+      success: false,
+      message: `Unknown endingType "${endingType}". Use one of: ${endings.join(", ")}.`,
+    };
+  }
+
   ctx.state.isGameOver = true;
   ctx.gameOverTriggered = true;
   ctx.gameOverDescription = deathDescription;
@@ -258,7 +733,8 @@ export const executeGenerateSceneImage = (
   ctx: ExecutionContext,
   args: Record<string, unknown>
 ): ToolResult => {
-  const style = (args.style as string) || "horror";
+  const { art } = scenarioFor(ctx.state);
+  const style = (args.style as string) || art.style;
 
   const locationValidation = validateNonEmptyString(args.location, "location");
   if (!locationValidation.valid) {
@@ -345,7 +821,17 @@ export const executeGenerateSceneImage = (
     contextualPrompt = `Starting location ${location} (${envDetails}): ${visualDescription}`;
   }
 
-  ctx.imagePrompt = `${contextualPrompt}, ${style} style, cinematic lighting, detailed, atmospheric`;
+  // Keeps the NPCs in the scene looking the same from image to image.
+  const present = (ctx.state.npcs ?? []).filter(
+    (npc) => npc.alive && npc.location === location && npc.visualAnchors.length > 0
+  );
+  if (present.length > 0) {
+    contextualPrompt = `${contextualPrompt.replace(/[.\s]+$/, "")}. Present: ${present
+      .map((npc) => `${npc.name} (${npc.visualAnchors.join(", ")})`)
+      .join("; ")}`;
+  }
+
+  ctx.imagePrompt = `${contextualPrompt}, ${style} style, ${art.keywords}`;
 
   return {
     success: true,
@@ -363,6 +849,291 @@ export const executeGenerateSceneImage = (
   };
 };
 
+const FACT_CATEGORIES: FactCategory[] = ["npc", "promise", "clue", "injury", "other"];
+const MAX_PINNED_FACTS = 20;
+const MAX_FACT_LENGTH = 200;
+
+export const executeRememberFact = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+
+  const factValidation = validateNonEmptyString(args.fact, "fact");
+  if (!factValidation.valid) {
+    return {
+      success: false,
+      message: factValidation.error,
+    };
+  }
+
+  const text = factValidation.trimmed;
+  if (text.length > MAX_FACT_LENGTH) {
+    return {
+      success: false,
+      message: `Fact is too long (${text.length} characters). Keep it under ${MAX_FACT_LENGTH}.`,
+    };
+  }
+
+  const rawCategory = typeof args.category === "string" ? args.category.trim().toLowerCase() : "";
+  const category = FACT_CATEGORIES.find((value) => value === rawCategory) ?? "other";
+  const facts = state.facts ?? [];
+
+  const existing = facts.find((fact) => fact.text.toLowerCase() === text.toLowerCase());
+  if (existing) {
+    return {
+      success: true,
+      message: `Fact already pinned as [${existing.id}]. No change needed.`,
+      data: { fact: existing },
+    };
+  }
+
+  if (facts.length >= MAX_PINNED_FACTS) {
+    return {
+      success: false,
+      message: `Already ${MAX_PINNED_FACTS} pinned facts. Forget one with forget_fact first.`,
+      data: { facts: facts.map((fact) => `[${fact.id}] ${fact.text}`) },
+    };
+  }
+
+  const fact: PinnedFact = {
+    id: `f${ctx.rng.uuid().slice(0, 6)}`,
+    category,
+    text,
+    turn: state.turn ?? 0,
+  };
+  state.facts = [...facts, fact];
+
+  return {
+    success: true,
+    message: `Fact pinned as [${fact.id}] (${category}). Pinned facts: ${state.facts.length}`,
+    data: { fact },
+  };
+};
+
+export const executeForgetFact = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+
+  const idValidation = validateNonEmptyString(args.factId, "factId");
+  if (!idValidation.valid) {
+    return {
+      success: false,
+      message: idValidation.error,
+    };
+  }
+
+  // Models sometimes echo the brackets from the Pinned Memories listing.
+  const factId = idValidation.trimmed.replace(/^\[|\]$/g, "");
+  const reason = (args.reason as string) || "unknown";
+  const facts = state.facts ?? [];
+  const forgotten = facts.find((fact) => fact.id === factId);
+
+  if (!forgotten) {
+    return {
+      success: false,
+      message: `Fact "${factId}" not found. Cannot forget.`,
+      data: { facts: facts.map((fact) => `[${fact.id}] ${fact.text}`) },
+    };
+  }
+
+  state.facts = facts.filter((fact) => fact !== forgotten);
+
+  return {
+    success: true,
+    message: `Fact [${forgotten.id}] forgotten. Reason: ${reason}. Pinned facts: ${state.facts.length}`,
+    data: { forgottenFact: forgotten },
+  };
+};
+
+const NPC_KINDS: NpcKind[] = ["victim", "manifestation", "other"];
+const NPC_DISPOSITIONS: NpcDisposition[] = ["hostile", "wary", "neutral", "friendly"];
+const MAX_NPCS = 12;
+const MAX_VISUAL_ANCHORS = 5;
+
+const readEnum = <T extends string>(value: unknown, allowed: T[]) => {
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return allowed.find((entry) => entry === normalized);
+};
+
+const readAnchors = (value: unknown) =>
+  Array.isArray(value)
+    ? value
+        .filter((anchor): anchor is string => typeof anchor === "string" && Boolean(anchor.trim()))
+        .map((anchor) => anchor.trim())
+    : [];
+
+/** The NPC a tool call targets: by `npcId` when given, else by exact name. */
+const findNpc = (state: GameState, args: Record<string, unknown>) => {
+  const npcs = state.npcs ?? [];
+  // Models sometimes echo the brackets from the NPC listing.
+  const npcId = typeof args.npcId === "string" ? args.npcId.trim().replace(/^\[|\]$/g, "") : "";
+  if (npcId) {
+    return npcs.find((npc) => npc.id === npcId);
+  }
+  const name = typeof args.name === "string" ? args.name.trim().toLowerCase() : "";
+  return name ? npcs.find((npc) => npc.name.toLowerCase() === name) : undefined;
+};
+
+const listNpcs = (state: GameState) => (state.npcs ?? []).map((npc) => `[${npc.id}] ${npc.name}`);
+
+export const executeSpawnNpc = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+
+  const nameValidation = validateNonEmptyString(args.name, "name");
+  if (!nameValidation.valid) {
+    return {
+      success: false,
+      message: nameValidation.error,
+    };
+  }
+
+  const name = nameValidation.trimmed;
+  const npcs = state.npcs ?? [];
+
+  const existing = findNpc(state, { name });
+  if (existing) {
+    return {
+      success: true,
+      message: `${existing.name} is already known as [${existing.id}]. Use update_npc to change them.`,
+      data: { npc: existing },
+    };
+  }
+
+  if (npcs.length >= MAX_NPCS) {
+    return {
+      success: false,
+      message: `Already ${MAX_NPCS} NPCs known. Remove one with remove_npc first.`,
+      data: { npcs: listNpcs(state) },
+    };
+  }
+
+  const turn = state.turn ?? 0;
+  const npc: Npc = {
+    id: `n${ctx.rng.uuid().slice(0, 6)}`,
+    name,
+    description: typeof args.description === "string" ? args.description.trim() : "",
+    kind: readEnum(args.kind, NPC_KINDS) ?? "other",
+    disposition: readEnum(args.disposition, NPC_DISPOSITIONS) ?? "neutral",
+    trust: typeof args.trust === "number" ? clamp(Math.round(args.trust), -10, 10) : 0,
+    alive: true,
+    location:
+      typeof args.location === "string" && args.location.trim()
+        ? args.location.trim()
+        : state.currentLocation ?? null,
+    visualAnchors: readAnchors(args.visualAnchors).slice(0, MAX_VISUAL_ANCHORS),
+    introducedTurn: turn,
+    lastSeenTurn: turn,
+  };
+  state.npcs = [...npcs, npc];
+
+  return {
+    success: true,
+    message: `${npc.name} introduced as [${npc.id}] (${npc.kind}, ${npc.disposition}). Known NPCs: ${state.npcs.length}`,
+    data: { npc },
+  };
+};
+
+export const executeUpdateNpc = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+  const npc = findNpc(state, args);
+
+  if (!npc) {
+    return {
+      success: false,
+      message: `NPC "${args.npcId ?? args.name ?? ""}" not found. Spawn them with spawn_npc first.`,
+      data: { npcs: listNpcs(state) },
+    };
+  }
+
+  const changes: string[] = [];
+
+  if (typeof args.description === "string" && args.description.trim()) {
+    npc.description = args.description.trim();
+    changes.push("description updated");
+  }
+
+  const disposition = readEnum(args.disposition, NPC_DISPOSITIONS);
+  if (disposition && disposition !== npc.disposition) {
+    changes.push(`disposition: ${npc.disposition} -> ${disposition}`);
+    npc.disposition = disposition;
+  }
+
+  if (typeof args.trustDelta === "number" && args.trustDelta !== 0) {
+    const oldTrust = npc.trust;
+    npc.trust = clamp(npc.trust + Math.round(args.trustDelta), -10, 10);
+    changes.push(`trust: ${oldTrust} -> ${npc.trust}`);
+  }
+
+  if (typeof args.alive === "boolean" && args.alive !== npc.alive) {
+    npc.alive = args.alive;
+    changes.push(npc.alive ? "alive again" : "dead");
+  }
+
+  if (typeof args.location === "string" && args.location.trim() && args.location.trim() !== npc.location) {
+    npc.location = args.location.trim();
+    changes.push(`location: ${npc.location}`);
+  }
+
+  const anchors = readAnchors(args.visualAnchors).filter(
+    (anchor) => !npc.visualAnchors.includes(anchor)
+  );
+  if (anchors.length > 0) {
+    npc.visualAnchors = [...npc.visualAnchors, ...anchors].slice(-MAX_VISUAL_ANCHORS);
+    changes.push(`visual anchors: ${npc.visualAnchors.join(", ")}`);
+  }
+
+  if (changes.length === 0) {
+    return {
+      success: false,
+      message: `Nothing to update for ${npc.name}. Give a new description, disposition, trustDelta, alive, location or visualAnchors.`,
+      data: { npc },
+    };
+  }
+
+  npc.lastSeenTurn = state.turn ?? 0;
+  const reason = (args.reason as string) || "unknown";
+
+  return {
+    success: true,
+    message: `${npc.name} [${npc.id}] updated (${reason}): ${changes.join(", ")}`,
+    data: { npc, changes },
+  };
+};
+
+export const executeRemoveNpc = (
+  ctx: ExecutionContext,
+  args: Record<string, unknown>
+): ToolResult => {
+  const { state } = ctx;
+  const npc = findNpc(state, args);
+
+  if (!npc) {
+    return {
+      success: false,
+      message: `NPC "${args.npcId ?? args.name ?? ""}" not found. Cannot remove.`,
+      data: { npcs: listNpcs(state) },
+    };
+  }
+
+  state.npcs = (state.npcs ?? []).filter((entry) => entry !== npc);
+  const reason = (args.reason as string) || "unknown";
+
+  return {
+    success: true,
+    message: `${npc.name} [${npc.id}] removed from the story. Reason: ${reason}. Known NPCs: ${state.npcs.length}`,
+    data: { removedNpc: npc },
+  };
+};
+
 export const executeTool = (
   ctx: ExecutionContext,
   toolName: string,
@@ -377,6 +1148,15 @@ export const executeTool = (
     case "inventory_action":
       result = executeInventoryAction(ctx, args);
       break;
+    case "combine_items":
+      result = executeCombineItems(ctx, args);
+      break;
+    case "apply_effect":
+      result = executeApplyEffect(ctx, args);
+      break;
+    case "cure_effect":
+      result = executeCureEffect(ctx, args);
+      break;
     case "add_tag":
       result = executeAddTag(ctx, args);
       break;
@@ -389,6 +1169,21 @@ export const executeTool = (
     case "generate_scene_image":
       result = executeGenerateSceneImage(ctx, args);
       break;
+    case "remember_fact":
+      result = executeRememberFact(ctx, args);
+      break;
+    case "forget_fact":
+      result = executeForgetFact(ctx, args);
+      break;
+    case "spawn_npc":
+      result = executeSpawnNpc(ctx, args);
+      break;
+    case "update_npc":
+      result = executeUpdateNpc(ctx, args);
+      break;
+    case "remove_npc":
+      result = executeRemoveNpc(ctx, args);
+      break;
     default:
       result = {
         success: false,
@@ -412,4 +1207,5 @@ export const createExecutionContext = (state: GameState): ExecutionContext => ({
   imagePrompt: null,
   gameOverTriggered: false,
   gameOverDescription: null,
+  rng: createTurnRng(state, "tools"),
 });
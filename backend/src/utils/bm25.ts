@@ -0,0 +1,55 @@
+import { contentWords } from "./text";
+
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Bm25Match {
+  index: number;
+  score: number;
+}
+
+/**
+ * Okapi BM25 over a fixed set of documents. Returns the best `limit` matches
+ * for a query, best first; documents sharing no term with it are left out.
+ */
+export const createBm25Index = (documents: string[]) => {
+  const terms = documents.map((document) => {
+    const counts = new Map<string, number>();
+    for (const word of contentWords(document)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = documents.map((document) => contentWords(document).length);
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / (lengths.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of terms) {
+    for (const word of counts.keys()) {
+      documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+    }
+  }
+
+  const idf = (word: string) => {
+    const frequency = documentFrequency.get(word) ?? 0;
+    return Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  const search = (query: string, limit: number): Bm25Match[] => {
+    const queryWords = [...new Set(contentWords(query))];
+    return terms
+      .map((counts, index) => {
+        const norm = K1 * (1 - B + (B * lengths[index]) / (averageLength || 1));
+        const score = queryWords.reduce((sum, word) => {
+          const tf = counts.get(word) ?? 0;
+          return tf ? sum + (idf(word) * tf * (K1 + 1)) / (tf + norm) : sum;
+        }, 0);
+        return { index, score };
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  };
+
+  return { search };
+};
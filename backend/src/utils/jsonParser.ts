@@ -47,3 +47,54 @@ export const parseJsonWithCleanup = <T>(rawText: string): T => {
     }
   }
 };
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Reads the string value of `field` from a JSON object that may still be
+ * arriving. Returns what has been received so far, or null while the field
+ * has not started.
+ */
+export const readPartialStringField = (partialJson: string, field: string): string | null => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(partialJson);
+  if (!match) {
+    return null;
+  }
+
+  let value = "";
+  for (let i = match.index + match[0].length; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+    const next = partialJson[i + 1];
+    if (next === undefined) {
+      break;
+    }
+    if (next === "u") {
+      const hex = partialJson.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        break;
+      }
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    value += JSON_ESCAPES[next] ?? next;
+    i += 1;
+  }
+  return value;
+};
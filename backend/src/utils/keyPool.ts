@@ -1,82 +1,111 @@
 import { config } from "../config";
-
-interface KeyState {
-  key: string;
-  cooldownUntil: number;
-  dead: boolean;
-}
-
-let pool: KeyState[] = [];
-let cursor = 0;
-
-const DEFAULT_COOLDOWN_MS = 35_000;
-
-const initPool = () => {
-  if (pool.length > 0) return;
-
-  const keys = config.geminiApiKeys;
-  if (keys.length === 0) {
-    throw new Error(
-      "No Gemini API keys configured. Set GEMINI_API_KEYS or GEMINI_API_KEY in .env",
-    );
-  }
-
-  pool = keys.map((key) => ({ key, cooldownUntil: 0, dead: false }));
-  console.log(`[KeyPool] Initialized with ${pool.length} key(s)`);
-};
-
-export const getNextKey = (): string => {
-  initPool();
-  const now = Date.now();
-  const len = pool.length;
-
+
+interface KeyState {
+  key: string;
+  cooldownUntil: number;
+  dead: boolean;
+}
+
+export type KeyPoolName = "gemini" | "vertex";
+
+interface Pool {
+  keys: KeyState[];
+  cursor: number;
+}
+
+const pools = new Map<KeyPoolName, Pool>();
+
+const DEFAULT_COOLDOWN_MS = 35_000;
+
+const POOL_SOURCES: Record<KeyPoolName, { keys: () => string[]; hint: string }> = {
+  gemini: {
+    keys: () => config.geminiApiKeys,
+    hint: "Set GEMINI_API_KEYS or GEMINI_API_KEY in .env",
+  },
+  vertex: {
+    keys: () => config.vertexAIApiKeys,
+    hint: "Set VERTEX_AI_API_KEYS or VERTEX_AI_API_KEY in .env",
+  },
+};
+
+const initPool = (name: KeyPoolName): Pool => {
+  const existing = pools.get(name);
+  if (existing) return existing;
+
+  const { keys, hint } = POOL_SOURCES[name];
+  const configured = keys();
+  if (configured.length === 0) {
+    throw new Error(`No ${name} API keys configured. ${hint}`);
+  }
+
+  const pool: Pool = {
+    keys: configured.map((key) => ({ key, cooldownUntil: 0, dead: false })),
+    cursor: 0,
+  };
+  pools.set(name, pool);
+  console.log(`[KeyPool] Initialized ${name} pool with ${pool.keys.length} key(s)`);
+  return pool;
+};
+
+const findKey = (key: string): KeyState | undefined => {
+  for (const pool of pools.values()) {
+    const entry = pool.keys.find((k) => k.key === key);
+    if (entry) return entry;
+  }
+  return undefined;
+};
+
+export const getNextKey = (name: KeyPoolName = "gemini"): string => {
+  const pool = initPool(name);
+  const now = Date.now();
+  const len = pool.keys.length;
+
   for (let i = 0; i < len; i++) {
-    const idx = (cursor + i) % len;
-    if (!pool[idx].dead && pool[idx].cooldownUntil <= now) {
-      cursor = (idx + 1) % len;
-      return pool[idx].key;
+    const idx = (pool.cursor + i) % len;
+    if (!pool.keys[idx].dead && pool.keys[idx].cooldownUntil <= now) {
+      pool.cursor = (idx + 1) % len;
+      return pool.keys[idx].key;
     }
   }
 
   let earliest = -1;
-  for (let i = 0; i < len; i++) {
-    if (pool[i].dead) continue;
-    if (earliest === -1 || pool[i].cooldownUntil < pool[earliest].cooldownUntil) {
-      earliest = i;
-    }
-  }
-
-  if (earliest === -1) {
-    throw new Error("[KeyPool] All API keys are invalid. Check your GEMINI_API_KEYS in .env");
-  }
-
-  cursor = (earliest + 1) % len;
-  return pool[earliest].key;
-};
-
-export const markKeyRateLimited = (
-  key: string,
-  cooldownMs?: number,
-): void => {
-  initPool();
-  const entry = pool.find((k) => k.key === key);
-  if (entry) {
-    entry.cooldownUntil =
-      Date.now() + (cooldownMs ?? DEFAULT_COOLDOWN_MS);
-    console.warn(
-      `[KeyPool] Key ...${key.slice(-6)} rate-limited, cooldown ${((cooldownMs ?? DEFAULT_COOLDOWN_MS) / 1000).toFixed(0)}s`,
-    );
-  }
-};
-
-export const markKeyDead = (key: string): void => {
-  initPool();
-  const entry = pool.find((k) => k.key === key);
-  if (entry && !entry.dead) {
-    entry.dead = true;
-    const alive = pool.filter((k) => !k.dead).length;
-    console.error(
-      `[KeyPool] Key ...${key.slice(-6)} marked INVALID (permanently removed). ${alive} key(s) remaining.`,
-    );
-  }
-};
+  for (let i = 0; i < len; i++) {
+    if (pool.keys[i].dead) continue;
+    if (earliest === -1 || pool.keys[i].cooldownUntil < pool.keys[earliest].cooldownUntil) {
+      earliest = i;
+    }
+  }
+
+  if (earliest === -1) {
+    throw new Error(`[KeyPool] All ${name} API keys are invalid. ${POOL_SOURCES[name].hint}`);
+  }
+
+  pool.cursor = (earliest + 1) % len;
+  return pool.keys[earliest].key;
+};
+
+export const markKeyRateLimited = (
+  key: string,
+  cooldownMs?: number,
+): void => {
+  const entry = findKey(key);
+  if (entry) {
+    entry.cooldownUntil =
+      Date.now() + (cooldownMs ?? DEFAULT_COOLDOWN_MS);
+    console.warn(
+      `[KeyPool] Key ...${key.slice(-6)} rate-limited, cooldown ${((cooldownMs ?? DEFAULT_COOLDOWN_MS) / 1000).toFixed(0)}s`,
+    );
+  }
+};
+
+export const markKeyDead = (key: string): void => {
+  const entry = findKey(key);
+  if (entry && !entry.dead) {
+    entry.dead = true;
+    const pool = [...pools.values()].find((p) => p.keys.includes(entry));
+    const alive = pool ? pool.keys.filter((k) => !k.dead).length : 0;
+    console.error(
+      `[KeyPool] Key ...${key.slice(-6)} marked INVALID (permanently removed). ${alive} key(s) remaining.`,
+    );
+  }
+};
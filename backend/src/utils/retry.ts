@@ -1,65 +1,101 @@
-import { markKeyRateLimited, markKeyDead, getNextKey } from "./keyPool";
-
-const isRateLimitError = (error: unknown): boolean => {
-  if (!error || typeof error !== "object") return false;
-  const e = error as Record<string, unknown>;
-  if (e.status === 429) return true;
-  const msg = String(e.message ?? "");
-  return msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED");
-};
-
-const isInvalidKeyError = (error: unknown): boolean => {
-  if (!error || typeof error !== "object") return false;
-  const msg = String((error as Record<string, unknown>)?.message ?? "");
-  return msg.includes("API_KEY_INVALID") || msg.includes("API key not valid");
-};
-
-const extractRetryDelay = (error: unknown): number | null => {
-  const msg = String((error as Record<string, unknown>)?.message ?? "");
-  const match = msg.match(/retry in ([\d.]+)s/i);
-  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
-};
-
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
-export interface RetryOpts {
-  maxRetries?: number;
-  label?: string;
-  apiKey?: string;
-}
-
-export const withRetry = async <T>(
-  fn: () => Promise<T>,
-  opts: RetryOpts = {},
-): Promise<T> => {
-  const { maxRetries = 2, label = "API", apiKey } = opts;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
+import { markKeyRateLimited, markKeyDead, getNextKey, KeyPoolName } from "./keyPool";
+
+const isRateLimitError = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  const e = error as Record<string, unknown>;
+  if (e.status === 429) return true;
+  const msg = String(e.message ?? "");
+  return msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED");
+};
+
+const isInvalidKeyError = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  const msg = String((error as Record<string, unknown>)?.message ?? "");
+  return msg.includes("API_KEY_INVALID") || msg.includes("API key not valid");
+};
+
+const extractRetryDelay = (error: unknown): number | null => {
+  const msg = String((error as Record<string, unknown>)?.message ?? "");
+  const match = msg.match(/retry in ([\d.]+)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export interface RetryOpts {
+  maxRetries?: number;
+  label?: string;
+  apiKey?: string;
+  /** Returns false once another attempt would repeat side effects, e.g. streamed text. */
+  canRetry?: () => boolean;
+}
+
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  opts: RetryOpts = {},
+): Promise<T> => {
+  const { maxRetries = 2, label = "API", apiKey, canRetry } = opts;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
     } catch (error) {
       if (isInvalidKeyError(error) && apiKey) {
         markKeyDead(apiKey);
         throw error;
       }
-
-      if (!isRateLimitError(error) || attempt === maxRetries) {
-        throw error;
-      }
-
-      const serverDelay = extractRetryDelay(error);
-      const cooldown = serverDelay ?? 35_000;
-
-      if (apiKey) markKeyRateLimited(apiKey, cooldown);
-
-      const waitMs = Math.min(cooldown, 60_000);
-      console.warn(
-        `[Retry] ${label} 429 (attempt ${attempt + 1}/${maxRetries}). ` +
-        `Waiting ${(waitMs / 1000).toFixed(0)}s...`,
-      );
-      await sleep(waitMs);
-    }
-  }
-
-  throw new Error(`${label}: rate limit exceeded after retries`);
-};
+
+      if (!isRateLimitError(error) || attempt === maxRetries || canRetry?.() === false) {
+        throw error;
+      }
+
+      const serverDelay = extractRetryDelay(error);
+      const cooldown = serverDelay ?? 35_000;
+
+      if (apiKey) markKeyRateLimited(apiKey, cooldown);
+
+      const waitMs = Math.min(cooldown, 60_000);
+      console.warn(
+        `[Retry] ${label} 429 (attempt ${attempt + 1}/${maxRetries}). ` +
+        `Waiting ${(waitMs / 1000).toFixed(0)}s...`,
+      );
+      await sleep(waitMs);
+    }
+  }
+
+  throw new Error(`${label}: rate limit exceeded after retries`);
+};
+
+/**
+ * Runs `fn` with keys from `pool`, retrying rate limits on the same key and
+ * moving on to the next key when one turns out to be invalid.
+ */
+export const withKeyRotation = async <T>(
+  pool: KeyPoolName,
+  fn: (apiKey: string) => Promise<T>,
+  opts: {
+    label?: string;
+    maxRetries?: number;
+    maxKeyRetries?: number;
+    canRetry?: RetryOpts["canRetry"];
+  } = {},
+): Promise<T> => {
+  const { label = "API", maxRetries = 2, maxKeyRetries = 3, canRetry } = opts;
+
+  for (let keyAttempt = 0; keyAttempt < maxKeyRetries; keyAttempt++) {
+    const apiKey = getNextKey(pool);
+    try {
+      return await withRetry(() => fn(apiKey), { maxRetries, label, apiKey, canRetry });
+    } catch (error) {
+      if (isInvalidKeyError(error) && canRetry?.() !== false) {
+        console.warn(
+          `[Retry] ${label} invalid key, trying next key (attempt ${keyAttempt + 1}/${maxKeyRetries})...`,
+        );
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error(`${label}: all attempted keys were invalid`);
+};
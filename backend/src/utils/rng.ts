@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { GameState } from "../models/types";
+
+export interface Rng {
+  /** Float in [0, 1). */
+  next(): number;
+  uuid(): string;
+}
+
+const hashSeed = (input: string) => {
+  let h = 1779033703 ^ input.length;
+  for (let i = 0; i < input.length; i++) {
+    h = Math.imul(h ^ input.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// mulberry32: tiny, fast, and good enough for dice rolls.
+export const createRng = (seed: string): Rng => {
+  let a = hashSeed(seed);
+
+  const nextUint32 = () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+
+  return {
+    next: () => nextUint32() / 4294967296,
+    uuid: () => {
+      const random = new Uint8Array(16);
+      for (let i = 0; i < random.length; i += 4) {
+        const value = nextUint32();
+        random[i] = value & 0xff;
+        random[i + 1] = (value >>> 8) & 0xff;
+        random[i + 2] = (value >>> 16) & 0xff;
+        random[i + 3] = (value >>> 24) & 0xff;
+      }
+      return uuidv4({ random });
+    },
+  };
+};
+
+export const createSeed = () => crypto.randomBytes(8).toString("hex");
+
+/**
+ * Randomness for one purpose within one turn. Deriving from seed, turn and
+ * label keeps rolls stable even if other consumers draw more or fewer numbers.
+ */
+export const createTurnRng = (state: GameState, label: string) =>
+  createRng(`${state.seed ?? ""}:${state.turn}:${label}`);
@@ -0,0 +1,13 @@
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have he her his i in into is it its of on or " +
+    "she that the their them then there they this to was were with you your yourself"
+  ).split(" "),
+);
+
+/** Lower-cased words of `text` without stopwords and words under three letters. */
+export const contentWords = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word));
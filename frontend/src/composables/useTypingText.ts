@@ -20,8 +20,9 @@ export const useTypingText = (source: Ref<string | undefined>, speed = 18) => {
       return
     }
 
-    let index = 0
-    displayedText.value = ''
+    // Streamed text only grows, so keep typing from where we are.
+    let index = text.startsWith(displayedText.value) ? displayedText.value.length : 0
+    displayedText.value = text.slice(0, index)
     isTyping.value = true
 
     timer = window.setInterval(() => {
@@ -56,4 +57,4 @@ export const useTypingText = (source: Ref<string | undefined>, speed = 18) => {
   })
 
   return { displayedText, isTyping, skipTyping }
-}
+}
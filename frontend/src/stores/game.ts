@@ -1,9 +1,21 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
-import type { GameState } from '../types'
+import { computed, ref, toRaw } from 'vue'
+import type { CharacterOption, Difficulty, GameState, SaveSlotSummary } from '../types'
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? 'http://localhost:3000/api'
 
+const IMAGE_POLL_INTERVAL_MS = 1500
+const IMAGE_POLL_MAX_ATTEMPTS = 80
+
+const SAVE_SLOT_COUNT = 3
+const slotKey = (slot: number) => `am-save-slot-${slot}`
+const HARDCORE_KEY = 'am-hardcore'
+const DIFFICULTY_KEY = 'am-difficulty'
+const DIFFICULTIES: Difficulty[] = ['story', 'normal', 'nightmare']
+
+const readDifficulty = (value: unknown): Difficulty =>
+  DIFFICULTIES.find((difficulty) => difficulty === value) ?? 'normal'
+
 type RawChoice = { text?: unknown; type?: unknown; check?: unknown }
 
 type ImageValue = string | undefined
@@ -87,7 +99,55 @@ const normalizeGameState = (payload: any): GameState => {
         id: String(item?.id ?? ''),
         name: String(item?.name ?? ''),
         description: String(item?.description ?? item?.desc ?? ''),
-        imagePrompt: item?.imagePrompt ?? item?.image_prompt
+        imagePrompt: item?.imagePrompt ?? item?.image_prompt,
+        use: item?.use,
+        quantity: Number(item?.quantity ?? 1),
+        stackable: Boolean(item?.stackable),
+        charges: typeof item?.charges === 'number' ? item.charges : undefined,
+        durability: typeof item?.durability === 'number' ? item.durability : undefined,
+        cursed: Boolean(item?.cursed),
+        bound: Boolean(item?.bound),
+        weight: Number(item?.weight ?? 1),
+        tags: Array.isArray(item?.tags) ? item.tags.map(String) : []
+      }))
+    : []
+
+  const inventoryLoad = {
+    weight: Number(rawState.inventoryLoad?.weight ?? 0),
+    capacity: Number(rawState.inventoryLoad?.capacity ?? 0)
+  }
+
+  const memories = Array.isArray(rawState.memories)
+    ? rawState.memories.map((fact: any) => ({
+        id: String(fact?.id ?? ''),
+        category: String(fact?.category ?? 'other'),
+        text: String(fact?.text ?? ''),
+        turn: Number(fact?.turn ?? 0)
+      }))
+    : []
+
+  const effects = Array.isArray(rawState.effects)
+    ? rawState.effects.map((effect: any) => ({
+        id: String(effect?.id ?? ''),
+        source: String(effect?.source ?? ''),
+        turnsLeft: typeof effect?.turnsLeft === 'number' ? effect.turnsLeft : null,
+        stacks: Number(effect?.stacks ?? 1),
+        perTurn: effect?.perTurn ?? {}
+      }))
+    : []
+
+  const npcs = Array.isArray(rawState.npcs)
+    ? rawState.npcs.map((npc: any) => ({
+        id: String(npc?.id ?? ''),
+        name: String(npc?.name ?? ''),
+        description: String(npc?.description ?? ''),
+        kind: npc?.kind ?? 'other',
+        disposition: npc?.disposition ?? 'neutral',
+        trust: Number(npc?.trust ?? 0),
+        alive: npc?.alive !== false,
+        location: typeof npc?.location === 'string' ? npc.location : null,
+        visualAnchors: Array.isArray(npc?.visualAnchors) ? npc.visualAnchors.map(String) : [],
+        lastSeenTurn: Number(npc?.lastSeenTurn ?? 0)
       }))
     : []
 
@@ -102,23 +162,159 @@ const normalizeGameState = (payload: any): GameState => {
     rawState.image_base64 ??
     undefined
 
+  const imageUrl = normalizeImageUrl(rawImage)
+  const imageJobId = typeof payload?.imageJobId === 'string' ? payload.imageJobId : undefined
+
   return {
     sessionId: payload?.sessionId ?? rawState.sessionId ?? '',
     stats,
     inventory,
+    inventoryLoad,
     tags: Array.isArray(rawState.tags) ? rawState.tags : [],
+    memories,
+    effects,
+    npcs,
     story_text: payload?.story_text ?? rawState.story_text ?? '',
     choices: normalizeChoices(payload?.choices ?? rawState.choices),
     image_prompt: payload?.image_prompt ?? rawState.image_prompt ?? '',
-    imageUrl: normalizeImageUrl(rawImage),
-    isGameOver: Boolean(rawState.isGameOver ?? payload?.isGameOver)
+    imageUrl,
+    imageJobId,
+    imagePending: Boolean(imageJobId && !imageUrl),
+    isGameOver: Boolean(rawState.isGameOver ?? payload?.isGameOver),
+    turn: Number(rawState.turn ?? 0),
+    hardcore: Boolean(rawState.hardcore),
+    difficulty: readDifficulty(rawState.difficulty),
+    character: rawState.character ?? null
+  }
+}
+
+/** Reads a Server-Sent Events body and calls `onEvent` once per frame. */
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: string, data: any) => void
+) => {
+  if (!response.body) {
+    throw new Error('Empty response stream')
+  }
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+    const frames = buffer.split('\n\n')
+    buffer = done ? '' : frames.pop() ?? ''
+
+    for (const frame of frames) {
+      let event = 'message'
+      const data: string[] = []
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim()
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart())
+        }
+      }
+      if (data.length > 0) {
+        onEvent(event, JSON.parse(data.join('\n')))
+      }
+    }
+
+    if (done) {
+      return
+    }
+  }
+}
+
+const readSlot = (slot: number): any | null => {
+  const raw = window.localStorage.getItem(slotKey(slot))
+  if (!raw) {
+    return null
+  }
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return null
   }
 }
 
+const summarizeSlot = (slot: number): SaveSlotSummary | null => {
+  const snapshot = readSlot(slot)
+  if (!snapshot?.state) {
+    return null
+  }
+  return {
+    slot,
+    savedAt: String(snapshot.exportedAt ?? ''),
+    turn: Number(snapshot.state.turn ?? 0),
+    hp: Number(snapshot.state.stats?.hp ?? 0),
+    sanity: Number(snapshot.state.stats?.sanity ?? 0)
+  }
+}
+
+const readSlots = () =>
+  Array.from({ length: SAVE_SLOT_COUNT }, (_, index) => summarizeSlot(index + 1))
+
 export const useGameStore = defineStore('game', () => {
   const gameState = ref<GameState | null>(null)
   const loading = ref(false)
   const error = ref<string | null>(null)
+  const saveSlots = ref<Array<SaveSlotSummary | null>>(readSlots())
+  const hardcoreMode = ref(window.localStorage.getItem(HARDCORE_KEY) === 'true')
+  const difficultyMode = ref(readDifficulty(window.localStorage.getItem(DIFFICULTY_KEY)))
+  const characters = ref<CharacterOption[]>([])
+
+  const canUndo = computed(
+    () => Boolean(gameState.value && !gameState.value.hardcore && gameState.value.turn > 0)
+  )
+
+  const canSave = computed(
+    () => Boolean(gameState.value?.sessionId && (!gameState.value.hardcore || gameState.value.isGameOver))
+  )
+
+  /** Applies a settled image job if it still belongs to the current scene. */
+  const applyImageJob = (job: any) => {
+    const current = gameState.value
+    if (!current || current.imageJobId !== job?.jobId || job.status === 'pending') {
+      return
+    }
+    current.imagePending = false
+    current.imageUrl = normalizeImageUrl(job.image_url)
+  }
+
+  const pollImageJob = async (jobId: string) => {
+    for (let attempt = 0; attempt < IMAGE_POLL_MAX_ATTEMPTS; attempt++) {
+      await new Promise((resolve) => window.setTimeout(resolve, IMAGE_POLL_INTERVAL_MS))
+      const current = gameState.value
+      if (current?.imageJobId !== jobId || !current.imagePending) {
+        return
+      }
+      try {
+        const response = await fetch(`${API_BASE}/game/image/${encodeURIComponent(jobId)}`)
+        if (response.status === 404) {
+          current.imagePending = false
+          return
+        }
+        if (response.ok) {
+          applyImageJob(await response.json())
+        }
+      } catch (err) {
+        console.warn('[GameStore] Image job poll failed', err)
+      }
+    }
+  }
+
+  // While a new image renders the previous one stays on screen.
+  const setGameState = (next: GameState, options: { pollImage?: boolean } = {}) => {
+    if (next.imagePending) {
+      next.imageUrl = gameState.value?.imageUrl
+    }
+    gameState.value = next
+    if (next.imagePending && next.imageJobId && options.pollImage !== false) {
+      void pollImageJob(next.imageJobId)
+    }
+  }
 
   const request = async (path: string, body?: unknown) => {
     loading.value = true
@@ -130,6 +326,11 @@ export const useGameStore = defineStore('game', () => {
         body: body ? JSON.stringify(body) : undefined
       })
 
+      if (response.status === 410) {
+        gameState.value = null
+        throw new Error('Session expired. Initialize a new run.')
+      }
+
       if (!response.ok) {
         const message = await response.text()
         throw new Error(message || response.statusText)
@@ -137,7 +338,7 @@ export const useGameStore = defineStore('game', () => {
 
       const data = await response.json()
       const normalized = normalizeGameState(data)
-      gameState.value = normalized
+      setGameState(normalized)
       return normalized
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Unknown error'
@@ -147,11 +348,83 @@ export const useGameStore = defineStore('game', () => {
     }
   }
 
-  const startGame = async () => {
-    await request('/game/start')
+  /** Loads the default scenario's character roster; empty if it has none. */
+  const loadCharacters = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/game/scenarios`)
+      if (!response.ok) {
+        throw new Error(response.statusText)
+      }
+      const { scenarios } = await response.json()
+      const scenario = scenarios?.find((entry: any) => entry.isDefault) ?? scenarios?.[0]
+      characters.value = scenario?.characters ?? []
+    } catch (err) {
+      console.warn('[GameStore] Character roster unavailable', err)
+      characters.value = []
+    }
+    return characters.value
+  }
+
+  const startGame = async (characterId?: string) => {
+    await request('/game/start', {
+      hardcore: hardcoreMode.value,
+      difficulty: difficultyMode.value,
+      characterId
+    })
+  }
+
+  let latestStreamId = 0
+
+  const applyTurnEvent = (
+    event: string,
+    data: any,
+    streamed: { story: boolean; committed: boolean }
+  ) => {
+    const current = gameState.value
+    switch (event) {
+      case 'story_token':
+        if (current) {
+          current.story_text = streamed.story ? current.story_text + data.text : data.text
+          streamed.story = true
+        }
+        break
+      case 'story_reset':
+        if (current) {
+          current.story_text = ''
+        }
+        break
+      case 'tool_result':
+        if (current && data.state) {
+          const next = normalizeGameState(data.state)
+          current.stats = next.stats
+          current.inventory = next.inventory
+          current.inventoryLoad = next.inventoryLoad
+          current.tags = next.tags
+          current.memories = next.memories
+          current.effects = next.effects
+          current.npcs = next.npcs
+        }
+        break
+      case 'turn':
+        // The image job is pushed on this stream as `image_ready`.
+        setGameState(normalizeGameState(data), { pollImage: false })
+        streamed.committed = true
+        break
+      case 'done':
+        loading.value = false
+        break
+      case 'image_ready':
+        applyImageJob(data)
+        break
+      case 'error':
+        throw new Error(data.message ?? data.error ?? 'Unknown error')
+    }
   }
 
-  const sendAction = async (action: string, useItemId?: string) => {
+  const sendAction = async (
+    action: string,
+    items: { useItemId?: string; combineItemIds?: string[] } = {}
+  ) => {
     if (!gameState.value?.sessionId) {
       await startGame()
     }
@@ -159,20 +432,76 @@ export const useGameStore = defineStore('game', () => {
     const payload = {
       sessionId: gameState.value?.sessionId ?? '',
       action,
-      ...(useItemId ? { useItemId } : {})
+      ...items
+    }
+
+    // The stream stays open after `done` to push the image, so a newer turn
+    // may already be running when this one closes.
+    const streamId = ++latestStreamId
+    // Tool results and story tokens are shown as they arrive; if the turn
+    // fails the server keeps the old state, so the client goes back to it.
+    const previous = gameState.value ? structuredClone(toRaw(gameState.value)) : null
+    const streamed = { story: false, committed: false }
+    loading.value = true
+    error.value = null
+    try {
+      const response = await fetch(`${API_BASE}/game/action/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      if (response.status === 410) {
+        gameState.value = null
+        throw new Error('Session expired. Initialize a new run.')
+      }
+
+      if (!response.ok) {
+        const message = await response.text()
+        throw new Error(message || response.statusText)
+      }
+
+      await readEventStream(response, (event, data) => applyTurnEvent(event, data, streamed))
+
+      const current = gameState.value
+      if (streamId === latestStreamId && current?.imagePending && current.imageJobId) {
+        void pollImageJob(current.imageJobId)
+      }
+    } catch (err) {
+      if (previous && gameState.value && !streamed.committed && streamId === latestStreamId) {
+        gameState.value = previous
+      }
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    } finally {
+      if (streamId === latestStreamId) {
+        loading.value = false
+      }
     }
+  }
 
-    await request('/game/action', payload)
+  // The run a restart replaces while the character select is showing.
+  const restartSessionId = ref<string | null>(null)
+
+  /** Leaves the run for the character select; picking a survivor restarts it. */
+  const chooseCharacterForRestart = () => {
+    restartSessionId.value = gameState.value?.sessionId ?? restartSessionId.value
+    gameState.value = null
   }
 
-  const restartGame = async () => {
-    const oldSessionId = gameState.value?.sessionId
+  const restartGame = async (characterId?: string) => {
+    const oldSessionId = gameState.value?.sessionId ?? restartSessionId.value ?? undefined
     
     try {
       const response = await fetch(`${API_BASE}/game/restart`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId: oldSessionId })
+        body: JSON.stringify({
+          sessionId: oldSessionId,
+          hardcore: hardcoreMode.value,
+          difficulty: difficultyMode.value,
+          characterId
+        })
       })
 
       if (!response.ok) {
@@ -182,7 +511,8 @@ export const useGameStore = defineStore('game', () => {
 
       const data = await response.json()
       const normalized = normalizeGameState(data)
-      gameState.value = normalized
+      setGameState(normalized)
+      restartSessionId.value = null
       error.value = null
       
       console.log('[GameStore] Game restarted successfully')
@@ -193,5 +523,96 @@ export const useGameStore = defineStore('game', () => {
     }
   }
 
-  return { gameState, loading, error, startGame, sendAction, restartGame }
+  const rewind = async (turns = 1) => {
+    if (!gameState.value?.sessionId) {
+      return
+    }
+    await request('/game/rewind', { sessionId: gameState.value.sessionId, turns })
+  }
+
+  const setHardcoreMode = (value: boolean) => {
+    hardcoreMode.value = value
+    window.localStorage.setItem(HARDCORE_KEY, String(value))
+  }
+
+  const setDifficultyMode = (value: Difficulty) => {
+    difficultyMode.value = value
+    window.localStorage.setItem(DIFFICULTY_KEY, value)
+  }
+
+  const exportSnapshot = async () => {
+    const sessionId = gameState.value?.sessionId
+    if (!sessionId) {
+      throw new Error('No active session to save')
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/game/${encodeURIComponent(sessionId)}/export`)
+
+      if (response.status === 410) {
+        gameState.value = null
+        throw new Error('Session expired. Initialize a new run.')
+      }
+
+      if (!response.ok) {
+        const message = await response.text()
+        throw new Error(message || response.statusText)
+      }
+
+      return await response.json()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  const importSnapshot = async (snapshot: unknown) => {
+    await request('/game/import', snapshot)
+  }
+
+  const saveToSlot = async (slot: number) => {
+    const snapshot = await exportSnapshot()
+    window.localStorage.setItem(slotKey(slot), JSON.stringify(snapshot))
+    saveSlots.value = readSlots()
+  }
+
+  const loadFromSlot = async (slot: number) => {
+    const snapshot = readSlot(slot)
+    if (!snapshot) {
+      error.value = `Save slot ${slot} is empty`
+      return
+    }
+    await importSnapshot(snapshot)
+  }
+
+  const clearSlot = (slot: number) => {
+    window.localStorage.removeItem(slotKey(slot))
+    saveSlots.value = readSlots()
+  }
+
+  return {
+    gameState,
+    loading,
+    error,
+    saveSlots,
+    hardcoreMode,
+    difficultyMode,
+    characters,
+    canUndo,
+    canSave,
+    startGame,
+    sendAction,
+    restartSessionId,
+    chooseCharacterForRestart,
+    restartGame,
+    rewind,
+    setHardcoreMode,
+    setDifficultyMode,
+    loadCharacters,
+    exportSnapshot,
+    importSnapshot,
+    saveToSlot,
+    loadFromSlot,
+    clearSlot
+  }
 })
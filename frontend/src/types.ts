@@ -1,8 +1,72 @@
+export type Difficulty = 'story' | 'normal' | 'nightmare'
+
+export interface CharacterTrait {
+  id: string
+  name: string
+  description: string
+}
+
+export interface CharacterOption {
+  id: string
+  name: string
+  backstory: string
+  stats: GameState['stats']
+  inventory: Array<{ id: string; name: string; desc: string }>
+  traits: CharacterTrait[]
+}
+
+export interface ItemUseEffect {
+  hp?: number
+  sanity?: number
+  unlocks?: string
+  consumable?: boolean
+  cures?: string[]
+}
+
+export interface StatusEffect {
+  id: string
+  source: string
+  turnsLeft: number | null
+  stacks: number
+  perTurn: { hp?: number; sanity?: number }
+}
+
+export interface Npc {
+  id: string
+  name: string
+  description: string
+  kind: 'victim' | 'manifestation' | 'other'
+  disposition: 'hostile' | 'wary' | 'neutral' | 'friendly'
+  trust: number
+  alive: boolean
+  location: string | null
+  visualAnchors: string[]
+  lastSeenTurn: number
+}
+
 export interface GameState {
   sessionId: string
   stats: { hp: number; sanity: number; strength: number; intelligence: number; dexterity: number }
-  inventory: Array<{ id: string; name: string; description: string; imagePrompt?: string }>
+  inventory: Array<{
+    id: string
+    name: string
+    description: string
+    imagePrompt?: string
+    use?: ItemUseEffect
+    quantity: number
+    stackable: boolean
+    charges?: number
+    durability?: number
+    cursed: boolean
+    bound: boolean
+    weight: number
+    tags: string[]
+  }>
+  inventoryLoad: { weight: number; capacity: number }
   tags: string[]
+  memories: Array<{ id: string; category: string; text: string; turn: number }>
+  effects: StatusEffect[]
+  npcs: Npc[]
   story_text: string
   choices: Array<{
     text: string
@@ -12,5 +76,19 @@ export interface GameState {
   image_prompt: string
   imageUrl?: string
   imageBase64?: string
+  imageJobId?: string
+  imagePending: boolean
   isGameOver: boolean
+  turn: number
+  hardcore: boolean
+  difficulty: Difficulty
+  character: { id: string; name: string; traits: CharacterTrait[] } | null
+}
+
+export interface SaveSlotSummary {
+  slot: number
+  savedAt: string
+  turn: number
+  hp: number
+  sanity: number
 }